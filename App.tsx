@@ -1,31 +1,75 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { UploadZone } from './components/UploadZone';
 import { SummaryViewer } from './components/SummaryViewer';
 import { Spinner } from './components/Spinner';
 import { HistoryList } from './components/HistoryList';
-import { generateSummary } from './services/geminiService';
-import { parseEpub } from './services/epubService';
-import { getHistory, saveHistoryItem, clearHistory } from './services/historyService';
-import { FileData, SummaryMode, ProcessingState, SummaryResult, AVAILABLE_MODELS } from './types';
-import { BrainCircuit, User, Bot, FileText, Sparkles, Moon, Sun, FileCode, ListTree, BookCopy, ChevronDown } from 'lucide-react';
+import { ChapterPicker } from './components/ChapterPicker';
+import { ReadingProgressPicker } from './components/ReadingProgressPicker';
+import { ChatPanel } from './components/ChatPanel';
+import { BatchQueue } from './components/BatchQueue';
+import { ModeEditor } from './components/ModeEditor';
+import { CostEstimate } from './components/CostEstimate';
+import { CompareView } from './components/CompareView';
+import { ApiKeySettings } from './components/ApiKeySettings';
+import { ModeIconView, getGradientClass, getButtonClass, getCardClass } from './components/modeAppearance';
+import { createSummaryResult, summarizeContent, computeContentHash } from './services/summaryService';
+import { parseBook, SUPPORTED_FORMATS } from './services/bookService';
+import { createChapterStoppingPoint, findPreviousRecap, getRecapBook } from './services/recapService';
+import { getHistory, findCachedResult, saveHistoryItem, deleteHistoryItem, clearHistory, getStorageUsage, StorageUsage } from './services/historyService';
+import { getProvider } from './services/llmProvider';
+import { getActionableMessage } from './services/errorService';
+import { getApiKeyStatus } from './services/apiKeyService';
+import { exceedsInlineLimit, INLINE_LIMIT_MESSAGE } from './services/geminiService';
+import { getModes, saveCustomMode, deleteCustomMode, createEmptyMode, duplicateMode } from './services/modeService';
+import { FileData, SummaryMode, ProcessingState, SummaryResult, ParsedBook, ChatMessage, ModeDefinition, BatchItem, TokenUsage, StoppingPoint, AVAILABLE_MODELS, ProviderId } from './types';
+import { BrainCircuit, FileText, Sparkles, Moon, Sun, ChevronDown, Square, MessageSquare, Plus, Pencil, Copy, Trash2, RefreshCw, KeyRound } from 'lucide-react';
+
+// Models grouped by provider for the model selector
+const MODEL_GROUPS = Object.values(ProviderId)
+  .map(providerId => ({
+    label: getProvider(providerId).name,
+    models: AVAILABLE_MODELS.filter(m => m.provider === providerId),
+  }))
+  .filter(group => group.models.length > 0);
 
 const App: React.FC = () => {
   const [fileData, setFileData] = useState<FileData | null>(null);
-  const [mode, setMode] = useState<SummaryMode>(SummaryMode.HUMAN);
+  const [modes, setModes] = useState<ModeDefinition[]>(getModes);
+  const [modeId, setModeId] = useState<string>(SummaryMode.HUMAN);
+  const [editingMode, setEditingMode] = useState<ModeDefinition | null>(null);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
   const [processing, setProcessing] = useState<ProcessingState>({
     isLoading: false,
     error: null,
     progress: '',
   });
   const [result, setResult] = useState<SummaryResult | null>(null);
+  const [highlight, setHighlight] = useState('');
+  const [chatOpen, setChatOpen] = useState(false);
   const [history, setHistory] = useState<SummaryResult[]>([]);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
   const [isDark, setIsDark] = useState(false);
   const [modelId, setModelId] = useState<string>(AVAILABLE_MODELS[0].id);
+  const [streamingText, setStreamingText] = useState('');
+  const [book, setBook] = useState<ParsedBook | null>(null);
+  const [selectedChapters, setSelectedChapters] = useState<number[]>([]);
+  const [stoppingPoint, setStoppingPoint] = useState<StoppingPoint | null>(null);
+  const [continueRecap, setContinueRecap] = useState(true);
+  const [isParsing, setIsParsing] = useState(false);
+  const [parseFailed, setParseFailed] = useState(false);
+  const [isCached, setIsCached] = useState(false); // The shown result was reused from history
+  const [comparing, setComparing] = useState<[SummaryResult, SummaryResult] | null>(null);
+  const [apiKeyStatus, setApiKeyStatus] = useState(getApiKeyStatus);
+  const [keySettingsProvider, setKeySettingsProvider] = useState<ProviderId | null>(null); // Open on this provider's key
   
   const resultsRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const parseAbortRef = useRef<AbortController | null>(null); // Cancels reading a book that was replaced
 
   useEffect(() => {
-    setHistory(getHistory());
+    getHistory().then(setHistory);
+    getStorageUsage().then(setStorageUsage);
     
     // Check local storage or system preference
     const storedTheme = localStorage.getItem('theme');
@@ -50,120 +94,291 @@ const App: React.FC = () => {
     }
   };
 
+  // Parse the book up front so the chapter picker can be shown before generating
+  const loadBook = async (data: FileData) => {
+    parseAbortRef.current?.abort();
+    const controller = new AbortController();
+    parseAbortRef.current = controller;
+    setBook(null);
+    setSelectedChapters([]);
+    setParseFailed(false);
+    setIsParsing(true);
+    setProcessing({ isLoading: false, error: null, progress: 'Reading book structure...' });
+
+    try {
+      const parsed = await parseBook(data.file, data.mimeType, (progress) =>
+        !controller.signal.aborted && setProcessing(prev => ({ ...prev, progress })),
+        controller.signal
+      );
+      if (controller.signal.aborted) return;
+      // Without a text layer the file is sent as-is; say so now rather than after generating fails
+      if (!parsed && exceedsInlineLimit(data.file.size)) throw new Error(INLINE_LIMIT_MESSAGE);
+      setBook(parsed);
+      setSelectedChapters(parsed ? parsed.chapters.map((_, i) => i) : []);
+      setStoppingPoint(parsed && parsed.chapters.length > 0 ? createChapterStoppingPoint(parsed, 0) : null);
+      setProcessing(prev => ({ ...prev, progress: '' }));
+    } catch (err: any) {
+      if (controller.signal.aborted) return;
+      setParseFailed(true);
+      setProcessing(prev => ({ ...prev, error: err.message || "Failed to read the book" }));
+    } finally {
+      if (parseAbortRef.current === controller) {
+        parseAbortRef.current = null;
+        setIsParsing(false);
+      }
+    }
+  };
+
   const handleFileSelected = (data: FileData) => {
     setFileData(data);
     setResult(null);
-    setProcessing({ isLoading: false, error: null, progress: '' });
+    loadBook(data);
+  };
+
+  // A single file opens the chapter picker; several files go to the batch queue
+  const handleFilesSelected = (files: FileData[]) => {
+    if (files.length === 1) {
+      handleFileSelected(files[0]);
+      return;
+    }
+    setBatchItems(prev => [
+      ...prev,
+      ...files.map((data): BatchItem => ({
+        id: crypto.randomUUID ? crypto.randomUUID() : `${Date.now()}-${data.file.name}`,
+        fileData: data,
+        modeId: activeMode.id,
+        modelId,
+        status: 'queued',
+        progress: '',
+      })),
+    ]);
   };
 
-  const handleProcess = async () => {
+  const handleBatchResult = (item: SummaryResult) => {
+    saveHistoryItem(item)
+      .then(setHistory)
+      .catch((err: any) => setHistoryError(`"${item.fileName}" could not be saved to history: ${err?.message || 'unknown error'}`))
+      .finally(() => getStorageUsage().then(setStorageUsage));
+  };
+
+  // Unless regenerating, an earlier result for the same content, mode and model is reused
+  const handleProcess = async (regenerate = false) => {
     if (!fileData) return;
+    // Gemini models need the user's own key, and a saved local-server key has to be unlocked;
+    // ask for the key (or its passphrase) first
+    const provider = AVAILABLE_MODELS.find(m => m.id === modelId)?.provider;
+    const keyStatus = provider && getApiKeyStatus(provider);
+    if (provider === ProviderId.GEMINI ? keyStatus !== 'ready' : keyStatus === 'locked') {
+      setKeySettingsProvider(provider);
+      return;
+    }
 
     setProcessing({ isLoading: true, error: null, progress: 'Analyzing document structure...' });
+    setStreamingText('');
+    setIsCached(false);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let usage: TokenUsage | undefined;
+    const options = {
+      signal: controller.signal,
+      onPartial: setStreamingText,
+      onProgress: (progress: string) => setProcessing(prev => ({ ...prev, progress })),
+      onUsage: (total: TokenUsage) => { usage = total; },
+    };
     
     try {
-      let base64Payload = fileData.base64;
-      let mimeTypePayload = fileData.mimeType;
-
-      // Handle EPUB parsing client-side
-      if (fileData.mimeType === 'application/epub+zip' || fileData.file.name.toLowerCase().endsWith('.epub')) {
-         setProcessing(prev => ({ ...prev, progress: 'Parsing EPUB content...' }));
-         const epubText = await parseEpub(fileData.file);
-         
-         // Convert extracted text to base64 to match geminiService expectation for generic data
-         // We switch mimeType to text/plain because we extracted the raw text
-         base64Payload = btoa(unescape(encodeURIComponent(epubText))); 
-         mimeTypePayload = 'text/plain';
+      if (activeMode.readingProgress && !scope.stoppingPoint) {
+        throw new Error("Recaps need a book with extractable text, so only the part you have read is sent.");
       }
+      const contentHash = await computeContentHash(fileData, scope.book, scope.selected, activeMode, modelId);
+      const cached = regenerate ? null : await findCachedResult(contentHash);
+      if (cached) {
+        setResult(cached);
+        setHighlight('');
+        setIsCached(true);
+        return;
+      }
+
+      const summaryText = await summarizeContent(fileData, scope.book, scope.selected, activeMode, modelId, options);
 
-      setProcessing(prev => ({ ...prev, progress: 'Generating output with Gemini...' }));
-      const summaryText = await generateSummary(base64Payload, mimeTypePayload, mode, modelId);
+      if (controller.signal.aborted && !summaryText) {
+        throw new Error("Generation stopped before any output arrived.");
+      }
       
-      const newResult: SummaryResult = {
-        id: crypto.randomUUID ? crypto.randomUUID() : Date.now().toString(),
-        text: summaryText,
-        mode: mode,
-        fileName: fileData.file.name,
-        timestamp: Date.now(),
-      };
+      const newResult = createSummaryResult(
+        fileData.file.name, summaryText, activeMode, modelId, scope.book, scope.selected, controller.signal.aborted,
+        { usage, contentHash, stoppingPoint: scope.stoppingPoint }
+      );
 
       setResult(newResult);
-      setHistory(saveHistoryItem(newResult));
+      setHighlight('');
+      saveHistoryItem(newResult)
+        .then(updated => {
+          setHistory(updated);
+          setHistoryError(null);
+        })
+        .catch((err: any) => setHistoryError(`This summary could not be saved to history: ${err?.message || 'unknown error'}`))
+        .finally(() => getStorageUsage().then(setStorageUsage));
       
       setTimeout(() => {
         resultsRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
       }, 100);
 
     } catch (err: any) {
-      setProcessing(prev => ({ ...prev, error: err.message || "An unexpected error occurred" }));
+      setProcessing(prev => ({ ...prev, error: getActionableMessage(err) }));
     } finally {
+      abortRef.current = null;
+      setStreamingText('');
       setProcessing(prev => ({ ...prev, isLoading: false }));
     }
   };
 
+  const handleRegenerate = () => {
+    setResult(null);
+    handleProcess(true);
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
   const handleReset = () => {
+    parseAbortRef.current?.abort();
+    setHighlight('');
+    setIsCached(false);
+    setComparing(null);
     setFileData(null);
+    setBook(null);
     setResult(null);
     setProcessing({ isLoading: false, error: null, progress: '' });
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
-  const handleHistorySelect = (item: SummaryResult) => {
+  const handleHistorySelect = (item: SummaryResult, query?: string) => {
+    setIsCached(false);
+    setComparing(null);
     setFileData(null);
+    setBook(null);
     setResult(item);
+    setHighlight(query || '');
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
-  const handleClearHistory = () => {
-    clearHistory();
-    setHistory([]);
+  const handleCompare = (left: SummaryResult, right: SummaryResult) => {
+    setIsCached(false);
+    setFileData(null);
+    setBook(null);
+    setResult(null);
+    setComparing([left, right]);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
-  // Helper to determine active color based on mode
-  const getModeColor = (m: SummaryMode) => {
-    switch(m) {
-      case SummaryMode.HUMAN: return 'indigo';
-      case SummaryMode.AI_AGENT: return 'purple';
-      case SummaryMode.MARKDOWN: return 'teal';
-      case SummaryMode.TOPIC_ANALYSIS: return 'amber';
-      case SummaryMode.CHAPTER_BY_CHAPTER: return 'rose';
-      default: return 'indigo';
-    }
+  // Persist the conversation alongside the summary in history
+  const handleChatUpdate = (chat: ChatMessage[]) => {
+    if (!result) return;
+    const updated = { ...result, chat };
+    setResult(updated);
+    saveHistoryItem(updated)
+      .then(setHistory)
+      .catch((err: any) => setHistoryError(`The conversation could not be saved to history: ${err?.message || 'unknown error'}`));
   };
 
-  const activeColor = getModeColor(mode);
+  const handleDeleteHistoryItem = async (item: SummaryResult) => {
+    try {
+      setHistory(await deleteHistoryItem(item.id));
+      if (result?.id === item.id && !fileData) setResult(null);
+      if (comparing?.some(entry => entry.id === item.id)) setComparing(null);
+    } catch (err: any) {
+      setHistoryError(`Failed to delete "${item.fileName}": ${err?.message || 'unknown error'}`);
+    }
+    getStorageUsage().then(setStorageUsage);
+  };
 
-  const getGradient = () => {
-    switch(activeColor) {
-      case 'indigo': return 'from-indigo-600 to-violet-600 dark:from-indigo-400 dark:to-violet-400';
-      case 'purple': return 'from-purple-600 to-fuchsia-600 dark:from-purple-400 dark:to-fuchsia-400';
-      case 'teal': return 'from-teal-600 to-emerald-600 dark:from-teal-400 dark:to-emerald-400';
-      case 'amber': return 'from-amber-500 to-orange-600 dark:from-amber-400 dark:to-orange-400';
-      case 'rose': return 'from-rose-500 to-pink-600 dark:from-rose-400 dark:to-pink-400';
-      default: return 'from-indigo-600 to-violet-600';
+  const handleClearHistory = async () => {
+    try {
+      await clearHistory();
+      setHistory([]);
+      setHistoryError(null);
+    } catch (err: any) {
+      setHistoryError(`Failed to clear history: ${err?.message || 'unknown error'}`);
     }
+    getStorageUsage().then(setStorageUsage);
   };
 
-  const getButtonClass = (bgColor: string) => {
-    // Mapping internal color name to tailwind classes
-    const classes: Record<string, string> = {
-      'indigo': 'bg-indigo-600 hover:bg-indigo-700 shadow-indigo-200',
-      'purple': 'bg-purple-600 hover:bg-purple-700 shadow-purple-200',
-      'teal': 'bg-teal-600 hover:bg-teal-700 shadow-teal-200',
-      'amber': 'bg-amber-600 hover:bg-amber-700 shadow-amber-200',
-      'rose': 'bg-rose-600 hover:bg-rose-700 shadow-rose-200',
-    };
-    return classes[bgColor] || classes['indigo'];
+  const handleSaveMode = (saved: ModeDefinition) => {
+    setModes(saveCustomMode(saved));
+    setModeId(saved.id);
+    setEditingMode(null);
+  };
+
+  const handleDeleteMode = (id: string) => {
+    setModes(deleteCustomMode(id));
+    if (modeId === id) setModeId(SummaryMode.HUMAN);
   };
 
-  const getButtonLabel = () => {
-    switch(mode) {
-      case SummaryMode.HUMAN: return 'Generate Readable Summary';
-      case SummaryMode.AI_AGENT: return 'Generate AI Context';
-      case SummaryMode.MARKDOWN: return 'Convert to Markdown';
-      case SummaryMode.TOPIC_ANALYSIS: return 'Analyze Topics';
-      case SummaryMode.CHAPTER_BY_CHAPTER: return 'Analyze Chapters';
+  const activeMode = modes.find(m => m.id === modeId) || modes[0];
+  const activeColor = activeMode.color;
+
+  const previousRecap = useMemo(
+    () => activeMode.readingProgress && fileData && stoppingPoint
+      ? findPreviousRecap(history, fileData.file.name, activeMode.id, stoppingPoint)
+      : undefined,
+    [activeMode, fileData, stoppingPoint, history]
+  );
+
+  // What a generation sends: the selected chapters, or for reading-progress modes the text
+  // before the stopping point (after the previous recap's, when continuing from it)
+  const scope = useMemo(() => {
+    if (!activeMode.readingProgress || !book || !stoppingPoint) {
+      return { book, selected: selectedChapters, stoppingPoint: undefined };
     }
+    const continued = continueRecap ? previousRecap : undefined;
+    const point: StoppingPoint = continued?.stoppingPoint
+      ? { ...stoppingPoint, since: { percent: continued.stoppingPoint.percent, label: continued.stoppingPoint.label } }
+      : stoppingPoint;
+    const recapBook = getRecapBook(book, point, continued);
+    return { book: recapBook, selected: recapBook.chapters.map((_, i) => i), stoppingPoint: point };
+  }, [activeMode, book, selectedChapters, stoppingPoint, continueRecap, previousRecap]);
+
+  const renderModeCard = (m: ModeDefinition) => {
+    const selected = m.id === activeMode.id;
+    return (
+      <div key={m.id} className="relative group">
+        <button
+          onClick={() => setModeId(m.id)}
+          className={`relative w-full h-full p-4 rounded-xl border-2 text-left transition-all duration-200 ${getCardClass(m.color, selected)}`}
+        >
+          <div className="flex items-center justify-between mb-2">
+            <div className={`p-2 rounded-lg ${selected ? `bg-${m.color}-200 text-${m.color}-700` : 'bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400'}`}>
+              <ModeIconView icon={m.icon} />
+            </div>
+            {selected && <div className={`h-3 w-3 bg-${m.color}-600 dark:bg-${m.color}-500 rounded-full animate-pulse`} />}
+          </div>
+          <h3 className={`font-semibold ${selected ? `text-${m.color}-900 dark:text-${m.color}-300` : 'text-gray-700 dark:text-gray-200'}`}>
+            {m.name}
+          </h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 pr-16">
+            {m.description || 'Custom prompt'}
+          </p>
+        </button>
+        <div className="absolute bottom-2 right-2 flex space-x-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+          {!m.builtIn && (
+            <button onClick={() => setEditingMode(m)} className="p-1 text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 rounded" title="Edit mode">
+              <Pencil className="w-3.5 h-3.5" />
+            </button>
+          )}
+          <button onClick={() => setEditingMode(duplicateMode(m))} className="p-1 text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 rounded" title="Duplicate as custom mode">
+            <Copy className="w-3.5 h-3.5" />
+          </button>
+          {!m.builtIn && (
+            <button onClick={() => handleDeleteMode(m.id)} className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 rounded" title="Delete mode">
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      </div>
+    );
   };
 
   return (
@@ -176,7 +391,7 @@ const App: React.FC = () => {
             <div className={`p-2 rounded-lg transition-colors bg-${activeColor}-600`}>
               <BrainCircuit className="w-6 h-6 text-white" />
             </div>
-            <h1 className={`text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r transition-all duration-300 ${getGradient()}`}>
+            <h1 className={`text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r transition-all duration-300 ${getGradientClass(activeColor)}`}>
               Gemini Ebook Lens
             </h1>
           </div>
@@ -191,12 +406,26 @@ const App: React.FC = () => {
                     className="appearance-none bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-xs font-medium text-gray-700 dark:text-gray-200 py-1.5 pl-3 pr-8 rounded-lg border border-transparent focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none transition-all cursor-pointer"
                     aria-label="Select AI Model"
                 >
-                    {AVAILABLE_MODELS.map(model => (
-                        <option key={model.id} value={model.id}>{model.name}</option>
+                    {MODEL_GROUPS.map(group => (
+                        <optgroup key={group.label} label={group.label}>
+                            {group.models.map(model => (
+                                <option key={model.id} value={model.id}>{model.name}</option>
+                            ))}
+                        </optgroup>
                     ))}
                 </select>
              </div>
 
+             <button
+              onClick={() => setKeySettingsProvider(ProviderId.GEMINI)}
+              className="relative p-2 rounded-lg text-gray-500 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700 transition-colors"
+              aria-label="API Key Settings"
+              title={apiKeyStatus === 'ready' ? 'API key' : apiKeyStatus === 'locked' ? 'API key locked' : 'No API key set'}
+             >
+               <KeyRound className="w-5 h-5" />
+               {apiKeyStatus !== 'ready' && <span className="absolute top-1.5 right-1.5 w-2 h-2 rounded-full bg-amber-500" />}
+             </button>
+
              <button 
               onClick={toggleTheme}
               className="p-2 rounded-lg text-gray-500 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700 transition-colors"
@@ -221,156 +450,62 @@ const App: React.FC = () => {
                     onChange={(e) => setModelId(e.target.value)}
                     className="w-full appearance-none bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-sm font-medium text-gray-700 dark:text-gray-200 py-2 pl-3 pr-8 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 transition-all"
                 >
-                     {AVAILABLE_MODELS.map(model => (
-                        <option key={model.id} value={model.id}>{model.name}</option>
+                     {MODEL_GROUPS.map(group => (
+                        <optgroup key={group.label} label={group.label}>
+                            {group.models.map(model => (
+                                <option key={model.id} value={model.id}>{model.name}</option>
+                            ))}
+                        </optgroup>
                     ))}
                 </select>
             </div>
         </div>
         
         {/* Introduction */}
-        {!fileData && !result && (
+        {!fileData && !result && !comparing && (
           <div className="text-center mb-10 space-y-4 animate-fade-in">
             <h2 className="text-3xl font-bold text-gray-900 dark:text-white tracking-tight">
               Transform Your Ebooks
             </h2>
             <p className="text-lg text-gray-600 dark:text-gray-300 max-w-xl mx-auto leading-relaxed">
-              Upload PDF or EPUB files to process them with Gemini. <br/>
-              Choose from 5 distinct analysis modes tailored to your needs.
+              Upload ebooks and documents ({SUPPORTED_FORMATS}) to process them with Gemini. <br/>
+              Choose from 8 built-in analysis modes or write your own.
             </p>
           </div>
         )}
 
         {/* Mode Selection - Only show if no result yet */}
-        {!result && (
+        {!result && !comparing && (
           <div className="mb-8 animate-slide-up">
             <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-3 ml-1">Summary Strategy</h3>
-            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
-              {/* HUMAN MODE */}
-              <button
-                onClick={() => setMode(SummaryMode.HUMAN)}
-                className={`relative p-4 rounded-xl border-2 text-left transition-all duration-200 ${
-                  mode === SummaryMode.HUMAN
-                    ? 'border-indigo-600 bg-indigo-50 dark:bg-indigo-900/30 ring-1 ring-indigo-600'
-                    : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 hover:border-indigo-300 dark:hover:border-indigo-500 hover:bg-gray-50 dark:hover:bg-gray-750'
-                }`}
-              >
-                <div className="flex items-center justify-between mb-2">
-                  <div className={`p-2 rounded-lg ${mode === SummaryMode.HUMAN ? 'bg-indigo-200 text-indigo-700' : 'bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400'}`}>
-                    <User className="w-5 h-5" />
-                  </div>
-                  {mode === SummaryMode.HUMAN && <div className="h-3 w-3 bg-indigo-600 dark:bg-indigo-500 rounded-full animate-pulse" />}
-                </div>
-                <h3 className={`font-semibold ${mode === SummaryMode.HUMAN ? 'text-indigo-900 dark:text-indigo-300' : 'text-gray-700 dark:text-gray-200'}`}>
-                  Readable
-                </h3>
-                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                  Concise narrative summaries for quick reading.
-                </p>
-              </button>
-
-              {/* CHAPTER MODE */}
-              <button
-                onClick={() => setMode(SummaryMode.CHAPTER_BY_CHAPTER)}
-                className={`relative p-4 rounded-xl border-2 text-left transition-all duration-200 ${
-                  mode === SummaryMode.CHAPTER_BY_CHAPTER
-                    ? 'border-rose-600 bg-rose-50 dark:bg-rose-900/30 ring-1 ring-rose-600'
-                    : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 hover:border-rose-300 dark:hover:border-rose-500 hover:bg-gray-50 dark:hover:bg-gray-750'
-                }`}
-              >
-                <div className="flex items-center justify-between mb-2">
-                  <div className={`p-2 rounded-lg ${mode === SummaryMode.CHAPTER_BY_CHAPTER ? 'bg-rose-200 text-rose-700' : 'bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400'}`}>
-                    <BookCopy className="w-5 h-5" />
-                  </div>
-                  {mode === SummaryMode.CHAPTER_BY_CHAPTER && <div className="h-3 w-3 bg-rose-600 dark:bg-rose-500 rounded-full animate-pulse" />}
-                </div>
-                <h3 className={`font-semibold ${mode === SummaryMode.CHAPTER_BY_CHAPTER ? 'text-rose-900 dark:text-rose-300' : 'text-gray-700 dark:text-gray-200'}`}>
-                  By Chapter
-                </h3>
-                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                  Sequential summaries respecting book structure.
-                </p>
-              </button>
-
-              {/* TOPIC MODE */}
-              <button
-                onClick={() => setMode(SummaryMode.TOPIC_ANALYSIS)}
-                className={`relative p-4 rounded-xl border-2 text-left transition-all duration-200 ${
-                  mode === SummaryMode.TOPIC_ANALYSIS
-                    ? 'border-amber-500 bg-amber-50 dark:bg-amber-900/30 ring-1 ring-amber-500'
-                    : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 hover:border-amber-300 dark:hover:border-amber-500 hover:bg-gray-50 dark:hover:bg-gray-750'
-                }`}
-              >
-                <div className="flex items-center justify-between mb-2">
-                  <div className={`p-2 rounded-lg ${mode === SummaryMode.TOPIC_ANALYSIS ? 'bg-amber-200 text-amber-800' : 'bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400'}`}>
-                    <ListTree className="w-5 h-5" />
-                  </div>
-                  {mode === SummaryMode.TOPIC_ANALYSIS && <div className="h-3 w-3 bg-amber-500 dark:bg-amber-500 rounded-full animate-pulse" />}
-                </div>
-                <h3 className={`font-semibold ${mode === SummaryMode.TOPIC_ANALYSIS ? 'text-amber-900 dark:text-amber-300' : 'text-gray-700 dark:text-gray-200'}`}>
-                  Topic Analysis
-                </h3>
-                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                  Extract and synthesize key themes across the text.
-                </p>
-              </button>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+              {modes.filter(m => m.group === 'strategy').map(renderModeCard)}
             </div>
 
             <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-3 ml-1">Data & Context</h3>
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-              {/* AI AGENT MODE */}
-              <button
-                onClick={() => setMode(SummaryMode.AI_AGENT)}
-                className={`relative p-4 rounded-xl border-2 text-left transition-all duration-200 ${
-                  mode === SummaryMode.AI_AGENT
-                    ? 'border-purple-600 bg-purple-50 dark:bg-purple-900/30 ring-1 ring-purple-600'
-                    : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 hover:border-purple-300 dark:hover:border-purple-500 hover:bg-gray-50 dark:hover:bg-gray-750'
-                }`}
-              >
-                <div className="flex items-center justify-between mb-2">
-                  <div className={`p-2 rounded-lg ${mode === SummaryMode.AI_AGENT ? 'bg-purple-200 text-purple-700' : 'bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400'}`}>
-                    <Bot className="w-5 h-5" />
-                  </div>
-                  {mode === SummaryMode.AI_AGENT && <div className="h-3 w-3 bg-purple-600 dark:bg-purple-500 rounded-full animate-pulse" />}
-                </div>
-                <h3 className={`font-semibold ${mode === SummaryMode.AI_AGENT ? 'text-purple-900 dark:text-purple-300' : 'text-gray-700 dark:text-gray-200'}`}>
-                  AI Context
-                </h3>
-                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                  Dense facts & entities for LLM ingestion.
-                </p>
-              </button>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+              {modes.filter(m => m.group === 'data').map(renderModeCard)}
+            </div>
 
-              {/* MARKDOWN MODE */}
+            <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-3 ml-1">Custom Modes</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {modes.filter(m => m.group === 'custom').map(renderModeCard)}
               <button
-                onClick={() => setMode(SummaryMode.MARKDOWN)}
-                className={`relative p-4 rounded-xl border-2 text-left transition-all duration-200 ${
-                  mode === SummaryMode.MARKDOWN
-                    ? 'border-teal-600 bg-teal-50 dark:bg-teal-900/30 ring-1 ring-teal-600'
-                    : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 hover:border-teal-300 dark:hover:border-teal-500 hover:bg-gray-50 dark:hover:bg-gray-750'
-                }`}
+                onClick={() => setEditingMode(createEmptyMode())}
+                className="p-4 rounded-xl border-2 border-dashed border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400 hover:border-indigo-300 dark:hover:border-indigo-500 hover:text-indigo-600 dark:hover:text-indigo-400 flex flex-col items-center justify-center min-h-[120px] transition-colors"
               >
-                <div className="flex items-center justify-between mb-2">
-                  <div className={`p-2 rounded-lg ${mode === SummaryMode.MARKDOWN ? 'bg-teal-200 text-teal-700' : 'bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400'}`}>
-                    <FileCode className="w-5 h-5" />
-                  </div>
-                  {mode === SummaryMode.MARKDOWN && <div className="h-3 w-3 bg-teal-600 dark:bg-teal-500 rounded-full animate-pulse" />}
-                </div>
-                <h3 className={`font-semibold ${mode === SummaryMode.MARKDOWN ? 'text-teal-900 dark:text-teal-300' : 'text-gray-700 dark:text-gray-200'}`}>
-                  Markdown
-                </h3>
-                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                  Full content conversion to structured MD.
-                </p>
+                <Plus className="w-5 h-5 mb-1" />
+                <span className="text-sm font-medium">New Mode</span>
+                <span className="text-xs mt-1">Write your own prompt</span>
               </button>
             </div>
           </div>
         )}
 
         {/* Upload Area - Hidden if there is a result */}
-        {!fileData && !result && (
+        {!fileData && !result && !comparing && (
           <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
-            <UploadZone onFileSelected={handleFileSelected} disabled={processing.isLoading} />
+            <UploadZone onFilesSelected={handleFilesSelected} disabled={processing.isLoading} />
           </div>
         )}
 
@@ -388,6 +523,7 @@ const App: React.FC = () => {
                   </h3>
                   <p className="text-xs text-gray-500 dark:text-gray-400">
                     {(fileData.file.size / (1024 * 1024)).toFixed(2)} MB
+                    {book?.author && ` · ${book.author}`}
                   </p>
                 </div>
               </div>
@@ -400,20 +536,62 @@ const App: React.FC = () => {
               </button>
             </div>
 
+            {activeMode.readingProgress ? (
+              book && stoppingPoint ? (
+                <ReadingProgressPicker
+                  book={book}
+                  value={stoppingPoint}
+                  onChange={setStoppingPoint}
+                  previous={previousRecap}
+                  continueFromPrevious={continueRecap}
+                  onContinueChange={setContinueRecap}
+                  disabled={processing.isLoading}
+                />
+              ) : !isParsing && !processing.error && (
+                <p className="mb-6 text-sm text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 p-3 rounded-lg">
+                  No text could be extracted from this file, so a spoiler-free recap is not possible. Choose another mode or a file with a text layer.
+                </p>
+              )
+            ) : book && book.chapters.length > 1 && (
+              <ChapterPicker
+                chapters={book.chapters}
+                selected={selectedChapters}
+                onChange={setSelectedChapters}
+                disabled={processing.isLoading}
+              />
+            )}
+
             {processing.error ? (
               <div className="bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 p-4 rounded-lg text-sm">
                 Error: {processing.error}
-                <button onClick={handleProcess} className="ml-2 font-bold underline">Retry</button>
+                <button onClick={parseFailed ? () => loadBook(fileData) : () => handleProcess()} className="ml-2 font-bold underline">Retry</button>
+              </div>
+            ) : isParsing ? (
+              <div className="flex flex-col items-center space-y-3 py-6">
+                <div className={`p-3 rounded-full bg-${activeColor}-600`}>
+                  <Spinner />
+                </div>
+                <p className="text-gray-600 dark:text-gray-300 font-medium animate-pulse">{processing.progress}</p>
               </div>
             ) : (
               <div className="text-center py-4">
+                 {!processing.isLoading && (
+                   <CostEstimate
+                     fileData={fileData}
+                     book={scope.book}
+                     selectedChapters={scope.selected}
+                     mode={activeMode}
+                     modelId={modelId}
+                   />
+                 )}
                  {!processing.isLoading ? (
                    <button
-                    onClick={handleProcess}
-                    className={`w-full sm:w-auto px-8 py-3 rounded-xl font-semibold text-white shadow-lg dark:shadow-none transition-all transform active:scale-95 flex items-center justify-center mx-auto space-x-2 ${getButtonClass(activeColor)}`}
+                    onClick={() => handleProcess()}
+                    disabled={activeMode.readingProgress ? !scope.stoppingPoint : !!book && selectedChapters.length === 0}
+                    className={`w-full sm:w-auto px-8 py-3 rounded-xl font-semibold text-white shadow-lg dark:shadow-none transition-all transform active:scale-95 flex items-center justify-center mx-auto space-x-2 disabled:opacity-50 disabled:cursor-not-allowed ${getButtonClass(activeColor)}`}
                    >
                     <Sparkles className="w-5 h-5" />
-                    <span>{getButtonLabel()}</span>
+                    <span>{activeMode.buttonLabel}</span>
                    </button>
                  ) : (
                    <div className="flex flex-col items-center space-y-3 py-2">
@@ -422,6 +600,13 @@ const App: React.FC = () => {
                      </div>
                      <p className="text-gray-600 dark:text-gray-300 font-medium animate-pulse">{processing.progress}</p>
                      <p className="text-xs text-gray-400">This may take a moment for large books</p>
+                     <button
+                       onClick={handleStop}
+                       className="flex items-center text-sm font-medium text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 hover:bg-red-100 dark:hover:bg-red-900/40 px-4 py-1.5 rounded-lg transition-colors"
+                     >
+                       <Square className="w-3 h-3 mr-1.5 fill-current" />
+                       Stop
+                     </button>
                    </div>
                  )}
               </div>
@@ -429,34 +614,123 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {/* Live Output - streamed while generating */}
+        {fileData && !result && processing.isLoading && streamingText && (
+          <div className="mt-6">
+            <SummaryViewer
+              result={{ id: 'streaming', text: streamingText, mode: activeMode.id, fileName: fileData.file.name, timestamp: Date.now() }}
+              isStreaming
+            />
+          </div>
+        )}
+
+        {/* Comparison View */}
+        {comparing && (
+          <div className="space-y-6">
+            <div className="flex justify-between items-center">
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">Comparing History</h2>
+              <button
+                onClick={handleReset}
+                className="text-sm font-medium text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300 bg-indigo-50 dark:bg-indigo-900/20 px-4 py-2 rounded-lg transition-colors"
+              >
+                Start New Summary
+              </button>
+            </div>
+            <CompareView left={comparing[0]} right={comparing[1]} onClose={() => setComparing(null)} />
+          </div>
+        )}
+
         {/* Result View */}
         {result && (
           <div ref={resultsRef} className="space-y-6">
              <div className="flex justify-between items-center">
                 <h2 className="text-xl font-bold text-gray-900 dark:text-white">
-                  {fileData ? "Processing Complete" : "Viewing History"}
+                  {!fileData ? "Viewing History" : isCached ? "Already Summarized" : result.isPartial ? "Stopped Early (Partial Result)" : "Processing Complete"}
                 </h2>
-                <button
-                   onClick={handleReset}
-                   className="text-sm font-medium text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300 bg-indigo-50 dark:bg-indigo-900/20 px-4 py-2 rounded-lg transition-colors"
-                >
-                   Start New Summary
-                </button>
+                <div className="flex items-center space-x-2">
+                  {isCached && (
+                    <button
+                       onClick={handleRegenerate}
+                       title="Generate a fresh result instead of reusing the saved one"
+                       className="flex items-center text-sm font-medium text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300 bg-indigo-50 dark:bg-indigo-900/20 px-4 py-2 rounded-lg transition-colors"
+                    >
+                       <RefreshCw className="w-4 h-4 mr-1.5" />
+                       Regenerate
+                    </button>
+                  )}
+                  <button
+                     onClick={() => setChatOpen(!chatOpen)}
+                     className={`flex items-center text-sm font-medium px-4 py-2 rounded-lg transition-colors ${
+                       chatOpen
+                         ? 'bg-indigo-600 text-white hover:bg-indigo-700'
+                         : 'text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300 bg-indigo-50 dark:bg-indigo-900/20'
+                     }`}
+                  >
+                     <MessageSquare className="w-4 h-4 mr-1.5" />
+                     Ask Questions
+                  </button>
+                  <button
+                     onClick={handleReset}
+                     className="text-sm font-medium text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300 bg-indigo-50 dark:bg-indigo-900/20 px-4 py-2 rounded-lg transition-colors"
+                  >
+                     Start New Summary
+                  </button>
+                </div>
+             </div>
+             {isCached && (
+               <p className="text-sm text-gray-500 dark:text-gray-400 -mt-3">
+                 This book was already processed with the same mode and model on {new Date(result.timestamp).toLocaleDateString()}, so the saved result is shown instead of generating it again.
+               </p>
+             )}
+             <div className={chatOpen ? 'grid grid-cols-1 lg:grid-cols-5 gap-6' : ''}>
+               <div className={chatOpen ? 'lg:col-span-3 min-w-0' : ''}>
+                 <SummaryViewer result={result} highlight={highlight} book={book} />
+               </div>
+               {chatOpen && (
+                 <div className="lg:col-span-2">
+                   <ChatPanel result={result} book={book} modelId={modelId} onChatUpdate={handleChatUpdate} />
+                 </div>
+               )}
              </div>
-             <SummaryViewer result={result} />
           </div>
         )}
 
+        {/* Batch Queue */}
+        {batchItems.length > 0 && (
+            <BatchQueue
+                items={batchItems}
+                setItems={setBatchItems}
+                onResult={handleBatchResult}
+                onOpen={handleHistorySelect}
+            />
+        )}
+
         {/* History List */}
         {!processing.isLoading && (
             <HistoryList 
                 history={history} 
                 onSelect={handleHistorySelect} 
+                onDelete={handleDeleteHistoryItem}
                 onClear={handleClearHistory} 
+                onCompare={handleCompare}
+                storageUsage={storageUsage}
+                error={historyError}
             />
         )}
 
       </main>
+
+      {editingMode && (
+        <ModeEditor mode={editingMode} onSave={handleSaveMode} onCancel={() => setEditingMode(null)} />
+      )}
+
+      {keySettingsProvider && (
+        <ApiKeySettings
+          initialProvider={keySettingsProvider}
+          onClose={() => setKeySettingsProvider(null)}
+          onChange={() => setApiKeyStatus(getApiKeyStatus())}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,31 @@
+import { createRequire } from 'node:module';
+import { pathToFileURL } from 'node:url';
+import { JSDOM } from 'jsdom';
+
+// Most book parsers are written for the browser: they use DOMParser and the Node
+// constants to read (X)HTML and XML. jsdom provides both outside the browser.
+const { window } = new JSDOM('');
+Object.assign(globalThis, { DOMParser: window.DOMParser, Node: window.Node });
+
+// pdf.js (the browser build that pdfService imports) relies on Promise.withResolvers, which Node adds in v22
+const promiseStatics = Promise as unknown as { withResolvers?: () => object };
+promiseStatics.withResolvers ||= () => {
+  let resolve: unknown;
+  let reject: unknown;
+  const promise = new Promise((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+// pdf.js logs its warnings with console.log, which would end up in piped output, and
+// warns on load that its browser build is running in Node. Warnings go to stderr instead.
+console.log = () => {};
+const pdfjsLib = await import('pdfjs-dist');
+console.log = console.error;
+
+// pdfService uses the worker bundled with the app, which Node can't load; here it runs the local worker in-process
+
+const require = createRequire(import.meta.url);
+pdfjsLib.GlobalWorkerOptions.workerSrc = pathToFileURL(require.resolve('pdfjs-dist/build/pdf.worker.mjs')).href;
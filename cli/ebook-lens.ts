@@ -0,0 +1,259 @@
+#!/usr/bin/env -S npx tsx
+// Must come first: installs the browser APIs the book parsers rely on
+import './domShim';
+import { mkdir, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { SummaryMode, AVAILABLE_MODELS, FileData, ModeDefinition, ParsedBook, SummaryResult, TokenUsage } from '../types';
+import { BUILT_IN_MODES } from '../services/modeService';
+import { parseBook, SUPPORTED_FORMATS } from '../services/bookService';
+import { formatBookText } from '../services/epubService';
+import { buildSystemInstruction } from '../services/geminiService';
+import { summarizeContent, createSummaryResult, computeContentHash } from '../services/summaryService';
+import { estimateRequest, formatCost, formatTokens, ModelEstimate } from '../services/costService';
+import { buildMarkdown } from '../services/exportService';
+import { encodeBase64 } from '../services/bookWorkerClient';
+import { expandInputs, readFileData } from './inputs';
+import { loadEnvironment } from './env';
+
+type OutputFormat = 'md' | 'json';
+
+// Recaps need the reader's stopping point, which only the app's single-book view asks for
+const CLI_MODES = BUILT_IN_MODES.filter(mode => !mode.readingProgress);
+
+const USAGE = `Usage: ebook-lens summarize <files, folders or globs...> [options]
+
+Summarize ebooks from the terminal. Supported formats: ${SUPPORTED_FORMATS}.
+
+Options:
+  -m, --mode <mode>      Summary mode (default: ${SummaryMode.HUMAN})
+      --model <id>       Model id (default: ${AVAILABLE_MODELS[0].id})
+  -o, --output <path>    Output file, or a directory when summarizing several books
+                         (default: print to stdout)
+  -f, --format <md|json> Output format (default: from the --output extension, else md).
+                         json includes the book metadata, model, token usage and cost
+      --dry-run          Print the extracted text and a token estimate; no model is called
+  -q, --quiet            Don't report progress on stderr
+  -h, --help             Show this help
+
+Modes:
+${CLI_MODES.map(mode => `  ${mode.id.padEnd(20)} ${mode.name}`).join('\n')}
+
+Models:
+${AVAILABLE_MODELS.map(model => `  ${model.id.padEnd(20)} ${model.name}`).join('\n')}
+
+Examples:
+  ebook-lens summarize book.epub --mode AI_AGENT --model gemini-2.5-flash -o out.md
+  ebook-lens summarize "library/**/*.epub" -o summaries/ -f json
+  ebook-lens summarize book.pdf --dry-run`;
+
+// What one input produced, as printed or written to disk
+interface BookReport {
+  source: string;
+  book: Omit<ParsedBook, 'chapters'> & { chapters: string[] } | null; // null when there is no extractable text
+  text: string; // Generated output, or the extracted text on a dry run
+  result?: SummaryResult;
+  estimate?: { inputTokens: number; parts: number; fitsContext: boolean; costUsd?: number };
+}
+
+// Helper to report progress; stdout stays reserved for the output
+const createLogger = (quiet: boolean) => (message: string) => {
+  if (!quiet) process.stderr.write(`${message}\n`);
+};
+
+const describeBook = (book: ParsedBook | null): BookReport['book'] => book && {
+  title: book.title,
+  author: book.author,
+  language: book.language,
+  chapters: book.chapters.map((chapter, i) => chapter.title || `Section ${i + 1}`),
+};
+
+// Parse a book and estimate what generating would cost, without calling the model
+const estimateBook = async (fileData: FileData, source: string, mode: ModeDefinition, modelId: string): Promise<BookReport> => {
+  const book = await parseBook(fileData.file, fileData.mimeType);
+  const text = book ? formatBookText(book) : '';
+  const content = book ? { text } : { inlineData: { data: await encodeBase64(fileData.file), mimeType: fileData.mimeType } };
+  const estimate = await estimateRequest(content, mode, buildSystemInstruction(mode), modelId, false);
+  const model = estimate.models.find(m => m.model.id === modelId) as ModelEstimate;
+
+  return {
+    source,
+    book: describeBook(book),
+    text,
+    estimate: book ? { inputTokens: estimate.inputTokens, parts: model.parts, fitsContext: model.fitsContext, costUsd: model.costUsd } : undefined,
+  };
+};
+
+// Helper to summarize an estimate in one line, e.g. "~120.5k input tokens in 1 request, about $0.05"
+const formatEstimate = (report: BookReport, modelId: string): string => {
+  if (!report.estimate) {
+    return `${report.source}: no extractable text; the file would be sent to ${modelId} as-is`;
+  }
+  const { inputTokens, parts, costUsd } = report.estimate;
+  const requests = parts > 1 ? `${parts} parts` : '1 request';
+  const cost = costUsd !== undefined ? `, about ${formatCost(costUsd)} with the expected output` : '';
+  return `${report.source}: ~${formatTokens(inputTokens)} input tokens for ${modelId} in ${requests}${cost} (estimated locally)`;
+};
+
+// Dry runs print the extracted text under front matter like the Markdown export's
+const buildDryRunMarkdown = (report: BookReport): string => {
+  const frontMatter = [
+    '---',
+    `source: ${JSON.stringify(report.source)}`,
+    ...(report.book ? [
+      `title: ${JSON.stringify(report.book.title)}`,
+      `author: ${JSON.stringify(report.book.author)}`,
+      `chapters: ${report.book.chapters.length}`,
+    ] : ['text: none']),
+    ...(report.estimate ? [`estimated_input_tokens: ${report.estimate.inputTokens}`] : []),
+    '---',
+    '',
+  ].join('\n');
+  return `${frontMatter}\n${report.text}\n`;
+};
+
+const formatReport = (report: BookReport, format: OutputFormat): string => {
+  if (format === 'json') return JSON.stringify(report, null, 2);
+  return report.result ? buildMarkdown(report.result) : buildDryRunMarkdown(report);
+};
+
+// Output file name when books are written to a directory, e.g. "dune-readable.md".
+// Books with the same name in different formats keep their extension ("dune-pdf-readable.md").
+const getOutputName = (source: string, mode: ModeDefinition, format: OutputFormat, usedNames: Set<string>): string => {
+  const extension = path.extname(source);
+  const stem = path.basename(source, extension);
+  let name = `${stem}-${mode.name.toLowerCase()}`;
+  if (usedNames.has(name)) name = `${stem}-${extension.slice(1)}-${mode.name.toLowerCase()}`;
+  usedNames.add(name);
+  return `${name.replace(/[^\w.-]+/g, '_')}.${format}`;
+};
+
+const summarize = async (inputs: string[], options: {
+  mode: ModeDefinition;
+  modelId: string;
+  output?: string;
+  format: OutputFormat;
+  dryRun: boolean;
+  log: (message: string) => void;
+}): Promise<boolean> => {
+  const { mode, modelId, output, format, dryRun, log } = options;
+  const files = await expandInputs(inputs);
+  // Several books go to a directory unless the output names a file (e.g. all.json)
+  const isDirectory = output && await stat(output).then(info => info.isDirectory(), () => false);
+  const toDirectory = !!output && (isDirectory || /[\\/]$/.test(output) || (files.length > 1 && !path.extname(output)));
+  if (toDirectory) await mkdir(output, { recursive: true });
+  const usedNames = new Set<string>();
+
+  // Ctrl+C stops the current generation; the books after it are skipped
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  const reports: BookReport[] = [];
+  let failed = false;
+  for (const [index, source] of files.entries()) {
+    if (controller.signal.aborted) break;
+    const prefix = files.length > 1 ? `[${index + 1}/${files.length}] ` : '';
+    try {
+      const fileData = await readFileData(source);
+      let report: BookReport;
+      if (dryRun) {
+        log(`${prefix}Reading ${source}...`);
+        report = await estimateBook(fileData, source, mode, modelId);
+        log(formatEstimate(report, modelId));
+      } else {
+        log(`${prefix}Reading ${source}...`);
+        const book = await parseBook(fileData.file, fileData.mimeType, (progress) => log(`${prefix}${progress}`));
+        const selected = book ? book.chapters.map((_, i) => i) : [];
+        let usage: TokenUsage | undefined;
+        const text = await summarizeContent(fileData, book, selected, mode, modelId, {
+          signal: controller.signal,
+          onProgress: (progress) => log(`${prefix}${progress}`),
+          onUsage: (total) => usage = total,
+        });
+        // Like the app, a stopped generation keeps the output received so far
+        const isPartial = controller.signal.aborted;
+        if (isPartial) log(`${prefix}Stopped; keeping the partial output`);
+        const contentHash = await computeContentHash(fileData, book, selected, mode, modelId);
+        const result = createSummaryResult(fileData.file.name, text, mode, modelId, book, selected, isPartial, { usage, contentHash });
+        report = { source, book: describeBook(book), text: result.text, result };
+        if (usage) {
+          const cost = usage.costUsd !== undefined ? `, ${formatCost(usage.costUsd)}` : '';
+          log(`${prefix}Done: ${formatTokens(usage.inputTokens)} in / ${formatTokens(usage.outputTokens)} out${cost}`);
+        }
+      }
+
+      if (toDirectory) {
+        const target = path.join(output, getOutputName(source, mode, format, usedNames));
+        await writeFile(target, formatReport(report, format));
+        log(`${prefix}Wrote ${target}`);
+      } else {
+        reports.push(report);
+      }
+    } catch (e: any) {
+      failed = true;
+      process.stderr.write(`${prefix}${source}: ${e.message}\n`);
+    }
+  }
+
+  if (!toDirectory && reports.length > 0) {
+    const content = format === 'json'
+      ? JSON.stringify(files.length > 1 ? reports : reports[0], null, 2)
+      : reports.map(report => formatReport(report, format)).join('\n\n');
+    if (output) {
+      await writeFile(output, `${content}\n`);
+      log(`Wrote ${output}`);
+    } else {
+      process.stdout.write(`${content}\n`);
+    }
+  }
+  return !failed && !controller.signal.aborted;
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      mode: { type: 'string', short: 'm', default: SummaryMode.HUMAN },
+      model: { type: 'string', default: AVAILABLE_MODELS[0].id },
+      output: { type: 'string', short: 'o' },
+      format: { type: 'string', short: 'f' },
+      'dry-run': { type: 'boolean', default: false },
+      quiet: { type: 'boolean', short: 'q', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  const [command, ...inputs] = positionals;
+  if (values.help || !command) {
+    process.stdout.write(`${USAGE}\n`);
+    return;
+  }
+  if (command !== 'summarize') throw new Error(`Unknown command "${command}". Run ebook-lens --help for usage.`);
+  if (inputs.length === 0) throw new Error("No input files given.");
+
+  const mode = CLI_MODES.find(m => m.id === values.mode.toUpperCase());
+  if (!mode) throw new Error(`Unknown mode "${values.mode}". Available: ${CLI_MODES.map(m => m.id).join(', ')}`);
+  if (!AVAILABLE_MODELS.some(m => m.id === values.model)) {
+    throw new Error(`Unknown model "${values.model}". Available: ${AVAILABLE_MODELS.map(m => m.id).join(', ')}`);
+  }
+
+  const format = values.format || (values.output?.toLowerCase().endsWith('.json') ? 'json' : 'md');
+  if (format !== 'md' && format !== 'json') throw new Error(`Unknown format "${format}". Use md or json.`);
+
+  const ok = await summarize(inputs, {
+    mode,
+    modelId: values.model,
+    output: values.output,
+    format,
+    dryRun: values['dry-run'],
+    log: createLogger(values.quiet),
+  });
+  if (!ok) process.exitCode = 1;
+};
+
+loadEnvironment();
+
+main().catch((e: any) => {
+  process.stderr.write(`${e.message}\n`);
+  process.exitCode = 1;
+});
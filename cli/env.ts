@@ -0,0 +1,9 @@
+// Same configuration as the web app: .env.local (or the environment). Keys are read
+// from it by apiKeyService. Shared by the CLI and the API server.
+export const loadEnvironment = () => {
+  try {
+    process.loadEnvFile('.env.local');
+  } catch {
+    // No .env.local; use the environment as-is
+  }
+};
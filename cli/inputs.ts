@@ -0,0 +1,84 @@
+import { readdir, readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { FileData } from '../types';
+import { findBookParser } from '../services/bookService';
+
+// Helper to turn a glob pattern into a regular expression over '/'-separated paths.
+// Supports *, ? and ** (any number of directories).
+const globToRegExp = (pattern: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === '*' && pattern[i + 1] === '*') {
+      // "**/" matches zero or more whole directories
+      source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += pattern[i + 2] === '/' ? 2 : 1;
+    } else if (c === '*') {
+      source += '[^/]*';
+    } else if (c === '?') {
+      source += '[^/]';
+    } else {
+      source += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+// Helper to list the files below a directory, as '/'-separated paths relative to it.
+// `depth` limits how many directory levels are read (1 = only the directory itself).
+const listFiles = async (dir: string, depth = Infinity, prefix = ''): Promise<string[]> => {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const nested = await Promise.all(entries.map(entry => {
+    const relative = `${prefix}${entry.name}`;
+    if (entry.isDirectory()) {
+      return depth > 1 ? listFiles(path.join(dir, entry.name), depth - 1, `${relative}/`) : Promise.resolve([]);
+    }
+    return Promise.resolve(entry.isFile() ? [relative] : []);
+  }));
+  return nested.flat();
+};
+
+// Resolve the command-line inputs to files. Globs are expanded here as well, since quoted
+// patterns (and Windows shells) reach the CLI unexpanded. Directories, like folders dropped
+// on the upload zone, contribute the supported files inside them.
+export const expandInputs = async (inputs: string[]): Promise<string[]> => {
+  const files: string[] = [];
+  for (const input of inputs) {
+    const pattern = input.split(path.sep).join('/');
+    if (/[*?]/.test(pattern)) {
+      // Walk from the deepest directory without wildcards
+      const segments = pattern.split('/');
+      const firstWild = segments.findIndex(segment => /[*?]/.test(segment));
+      const base = segments.slice(0, firstWild).join('/') || (pattern.startsWith('/') ? '/' : '.');
+      const rest = segments.slice(firstWild);
+      const matcher = globToRegExp(rest.join('/'));
+      const depth = rest.some(segment => segment.includes('**')) ? Infinity : rest.length;
+      const matches = (await listFiles(base, depth).catch(() => [])).filter(file => matcher.test(file));
+      if (matches.length === 0) throw new Error(`No files match ${input}`);
+      files.push(...matches.sort().map(file => path.join(base, file)));
+      continue;
+    }
+
+    const info = await stat(input).catch(() => null);
+    if (!info) throw new Error(`File not found: ${input}`);
+    if (info.isDirectory()) {
+      const supported = (await listFiles(input)).filter(file => findBookParser(file, ''));
+      files.push(...supported.sort().map(file => path.join(input, file)));
+    } else {
+      files.push(input);
+    }
+  }
+  return Array.from(new Set(files));
+};
+
+// Node counterpart of the upload zone's file reading
+export const readFileData = async (filePath: string): Promise<FileData> => {
+  const parser = findBookParser(filePath, '');
+  if (!parser) throw new Error(`Unsupported file type: ${filePath}`);
+  const buffer = await readFile(filePath);
+  const mimeType = parser.mimeTypes[0];
+  return {
+    file: new File([buffer], path.basename(filePath), { type: mimeType }),
+    mimeType,
+  };
+};
@@ -0,0 +1,279 @@
+import React, { useState } from 'react';
+import { X, KeyRound, Lock, Unlock, Eye, EyeOff, CheckCircle2, AlertCircle, Loader2, Trash2, Save } from 'lucide-react';
+import { getApiKey, getApiKeyStatus, isApiKeyEncrypted, saveApiKey, unlockApiKey, lockApiKey, removeApiKey } from '../services/apiKeyService';
+import { testApiKey } from '../services/geminiProvider';
+import { testLocalApiKey } from '../services/openAiCompatibleProvider';
+import { getActionableMessage } from '../services/errorService';
+import { AVAILABLE_MODELS, ProviderId } from '../types';
+
+interface ApiKeySettingsProps {
+  initialProvider?: ProviderId;
+  onClose: () => void;
+  onChange: () => void; // Called after a key is saved, unlocked, locked or removed
+}
+
+type Feedback = { ok: boolean; message: string } | null;
+
+// What differs between the providers' keys in this panel
+const PROVIDER_KEYS: Record<ProviderId, { label: string; placeholder: string; missing: string; test: (key: string) => Promise<void> }> = {
+  [ProviderId.GEMINI]: {
+    label: 'Gemini',
+    placeholder: 'AIza...',
+    missing: "No key saved. Summaries with Gemini models need your own API key.",
+    test: testApiKey,
+  },
+  [ProviderId.OPENAI_COMPATIBLE]: {
+    label: 'Local server',
+    placeholder: 'Bearer token',
+    missing: "No key saved. Only needed if your local server asks for a bearer token.",
+    test: testLocalApiKey,
+  },
+};
+
+// The local server's key is only offered when local models are configured
+const PROVIDERS = [ProviderId.GEMINI, ProviderId.OPENAI_COMPATIBLE]
+  .filter(provider => AVAILABLE_MODELS.some(m => m.provider === provider));
+
+export const ApiKeySettings: React.FC<ApiKeySettingsProps> = ({ initialProvider = ProviderId.GEMINI, onClose, onChange }) => {
+  const [provider, setProvider] = useState(initialProvider);
+  const [status, setStatus] = useState(() => getApiKeyStatus(initialProvider));
+  const [key, setKey] = useState('');
+  const [showKey, setShowKey] = useState(false);
+  const [encrypt, setEncrypt] = useState(() => isApiKeyEncrypted(initialProvider));
+  const [passphrase, setPassphrase] = useState('');
+  const [busy, setBusy] = useState<'test' | 'save' | 'unlock' | null>(null);
+  const [feedback, setFeedback] = useState<Feedback>(null);
+  const details = PROVIDER_KEYS[provider];
+
+  const refresh = () => {
+    setStatus(getApiKeyStatus(provider));
+    onChange();
+  };
+
+  const switchProvider = (next: ProviderId) => {
+    setProvider(next);
+    setStatus(getApiKeyStatus(next));
+    setEncrypt(isApiKeyEncrypted(next));
+    setKey('');
+    setPassphrase('');
+    setFeedback(null);
+  };
+
+  // Helper to run an action, showing its outcome below the form
+  const run = async (action: 'test' | 'save' | 'unlock', task: () => Promise<string>) => {
+    setBusy(action);
+    setFeedback(null);
+    try {
+      setFeedback({ ok: true, message: await task() });
+    } catch (err: any) {
+      setFeedback({ ok: false, message: getActionableMessage(err) });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // Tests the key being typed, or the saved one when the field is empty
+  const handleTest = () => run('test', async () => {
+    const candidate = key.trim() || getApiKey(provider);
+    if (!candidate) throw new Error("Enter an API key to test.");
+    await details.test(candidate);
+    return "The key works.";
+  });
+
+  const handleSave = () => run('save', async () => {
+    if (encrypt && !passphrase) throw new Error("Enter a passphrase, or turn off encryption.");
+    await saveApiKey(key, encrypt ? passphrase : undefined, provider);
+    setKey('');
+    setPassphrase('');
+    refresh();
+    return encrypt ? "Key saved, encrypted with your passphrase." : "Key saved.";
+  });
+
+  const handleUnlock = () => run('unlock', async () => {
+    await unlockApiKey(passphrase, provider);
+    setPassphrase('');
+    refresh();
+    return "Key unlocked for this session.";
+  });
+
+  const handleLock = () => {
+    lockApiKey(provider);
+    setFeedback(null);
+    refresh();
+  };
+
+  const handleRemove = () => {
+    if (!confirm(`Remove the saved ${details.label} key from this browser?`)) return;
+    removeApiKey(provider);
+    setEncrypt(false);
+    setFeedback(null);
+    refresh();
+  };
+
+  const inputClass = "w-full text-sm bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg px-3 py-2 text-gray-900 dark:text-white placeholder-gray-400 outline-none focus:ring-2 focus:ring-indigo-500";
+  const labelClass = "block text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1.5";
+  const secondaryButtonClass = "flex items-center text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 px-3 py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+  const primaryButtonClass = "flex items-center text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 px-4 py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+  const statusText = {
+    missing: details.missing,
+    locked: "A key is saved, encrypted. Enter your passphrase to use it in this session.",
+    ready: isApiKeyEncrypted(provider) ? "A key is saved, encrypted with your passphrase, and unlocked for this session." : "A key is saved in this browser.",
+  }[status];
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-xl border border-gray-200 dark:border-gray-700 w-full max-w-lg max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="flex items-center font-semibold text-gray-900 dark:text-white">
+            <KeyRound className="w-4 h-4 mr-2 text-indigo-600 dark:text-indigo-400" />
+            API Keys
+          </h3>
+          <button onClick={onClose} className="p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 rounded-md" aria-label="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto custom-scrollbar">
+          {PROVIDERS.length > 1 && (
+            <div className="flex bg-gray-100 dark:bg-gray-900 rounded-lg p-1">
+              {PROVIDERS.map(id => (
+                <button
+                  key={id}
+                  onClick={() => switchProvider(id)}
+                  disabled={busy !== null}
+                  className={`flex-1 text-sm font-medium px-3 py-1.5 rounded-md transition-colors ${
+                    provider === id
+                      ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm'
+                      : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+                  }`}
+                >
+                  {PROVIDER_KEYS[id].label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            {statusText}{' '}
+            {provider === ProviderId.GEMINI ? (
+              <span className="text-gray-400 dark:text-gray-500">
+                The key stays in this browser and is sent only to Google. Get one at{' '}
+                <a href="https://aistudio.google.com/apikey" target="_blank" rel="noreferrer" className="text-indigo-600 dark:text-indigo-400 hover:underline">aistudio.google.com</a>.
+              </span>
+            ) : (
+              <span className="text-gray-400 dark:text-gray-500">
+                The key stays in this browser and is sent only to your local server.
+              </span>
+            )}
+          </p>
+
+          {status === 'locked' ? (
+            <div>
+              <label className={labelClass}>Passphrase</label>
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && passphrase && handleUnlock()}
+                className={inputClass}
+                autoFocus
+              />
+            </div>
+          ) : (
+            <>
+              <div>
+                <label className={labelClass}>{status === 'ready' ? 'Replace Key' : 'API Key'}</label>
+                <div className="relative">
+                  <input
+                    type={showKey ? 'text' : 'password'}
+                    value={key}
+                    onChange={(e) => setKey(e.target.value)}
+                    className={`${inputClass} pr-10 font-mono`}
+                    placeholder={details.placeholder}
+                    autoComplete="off"
+                    spellCheck={false}
+                  />
+                  <button
+                    onClick={() => setShowKey(!showKey)}
+                    className="absolute inset-y-0 right-0 px-3 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                    aria-label={showKey ? 'Hide key' : 'Show key'}
+                  >
+                    {showKey ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </button>
+                </div>
+              </div>
+
+              <label className="flex items-center text-sm text-gray-700 dark:text-gray-200 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={encrypt}
+                  onChange={(e) => setEncrypt(e.target.checked)}
+                  className="mr-2 accent-indigo-600"
+                />
+                Encrypt with a passphrase (asked once per session)
+              </label>
+              {encrypt && (
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  className={inputClass}
+                  placeholder="Passphrase"
+                />
+              )}
+            </>
+          )}
+
+          {feedback && (
+            <div className={`flex items-start text-sm ${feedback.ok ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+              {feedback.ok
+                ? <CheckCircle2 className="w-4 h-4 mr-2 flex-shrink-0 mt-0.5" />
+                : <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0 mt-0.5" />}
+              {feedback.message}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between p-4 border-t border-gray-200 dark:border-gray-700">
+          <div className="flex space-x-1">
+            {status !== 'missing' && (
+              <button onClick={handleRemove} className={`${secondaryButtonClass} hover:text-red-600 dark:hover:text-red-400`}>
+                <Trash2 className="w-4 h-4 mr-1.5" />
+                Remove
+              </button>
+            )}
+            {status === 'ready' && isApiKeyEncrypted(provider) && (
+              <button onClick={handleLock} className={secondaryButtonClass}>
+                <Lock className="w-4 h-4 mr-1.5" />
+                Lock
+              </button>
+            )}
+          </div>
+          <div className="flex space-x-2">
+            {status === 'locked' ? (
+              <button onClick={handleUnlock} disabled={!passphrase || busy !== null} className={primaryButtonClass}>
+                {busy === 'unlock' ? <Loader2 className="w-4 h-4 mr-1.5 animate-spin" /> : <Unlock className="w-4 h-4 mr-1.5" />}
+                Unlock
+              </button>
+            ) : (
+              <>
+                <button onClick={handleTest} disabled={(!key.trim() && status !== 'ready') || busy !== null} className={secondaryButtonClass}>
+                  {busy === 'test' ? <Loader2 className="w-4 h-4 mr-1.5 animate-spin" /> : <CheckCircle2 className="w-4 h-4 mr-1.5" />}
+                  Test key
+                </button>
+                <button onClick={handleSave} disabled={!key.trim() || busy !== null} className={primaryButtonClass}>
+                  {busy === 'save' ? <Loader2 className="w-4 h-4 mr-1.5 animate-spin" /> : <Save className="w-4 h-4 mr-1.5" />}
+                  Save Key
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
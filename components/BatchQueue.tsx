@@ -0,0 +1,175 @@
+import React, { useEffect, useRef } from 'react';
+import { Layers, Clock, Loader2, CheckCircle2, AlertCircle, Ban, RotateCcw, X, ArrowRight } from 'lucide-react';
+import { BatchItem, BatchStatus, SummaryResult } from '../types';
+import { summarizeFile } from '../services/summaryService';
+import { findMode } from '../services/modeService';
+import { getActionableMessage } from '../services/errorService';
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  setItems: React.Dispatch<React.SetStateAction<BatchItem[]>>;
+  onResult: (result: SummaryResult) => void;
+  onOpen: (result: SummaryResult) => void;
+}
+
+// Books processed at the same time; the rest wait in the queue
+const BATCH_CONCURRENCY = 2;
+
+const isRunning = (status: BatchStatus) => status === 'parsing' || status === 'generating';
+
+export const BatchQueue: React.FC<BatchQueueProps> = ({ items, setItems, onResult, onOpen }) => {
+  // Controllers of the items currently running, keyed by item id
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  const updateItem = (id: string, patch: Partial<BatchItem>) =>
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+
+  const runItem = async (item: BatchItem, controller: AbortController) => {
+    try {
+      const mode = findMode(item.modeId);
+      if (!mode) throw new Error("The mode this book was queued with no longer exists.");
+
+      const result = await summarizeFile(
+        item.fileData,
+        mode,
+        item.modelId,
+        (status) => updateItem(item.id, { status }),
+        { signal: controller.signal, onProgress: (progress) => updateItem(item.id, { progress }) }
+      );
+      updateItem(item.id, { status: 'done', progress: '', result });
+      onResult(result);
+    } catch (err: any) {
+      updateItem(item.id, controller.signal.aborted
+        ? { status: 'cancelled', progress: '' }
+        : { status: 'failed', progress: '', error: getActionableMessage(err) });
+    } finally {
+      controllersRef.current.delete(item.id);
+    }
+  };
+
+  // Start queued items whenever a slot is free
+  useEffect(() => {
+    const running = items.filter(item => isRunning(item.status)).length;
+    const next = items
+      .filter(item => item.status === 'queued' && !controllersRef.current.has(item.id))
+      .slice(0, Math.max(0, BATCH_CONCURRENCY - running));
+
+    next.forEach(item => {
+      const controller = new AbortController();
+      controllersRef.current.set(item.id, controller);
+      updateItem(item.id, { status: 'parsing', progress: '', error: undefined });
+      runItem(item, controller);
+    });
+  }, [items]);
+
+  const handleCancel = (item: BatchItem) => {
+    const controller = controllersRef.current.get(item.id);
+    if (controller) controller.abort();
+    else updateItem(item.id, { status: 'cancelled' });
+  };
+
+  const handleRetry = (item: BatchItem) => updateItem(item.id, { status: 'queued', error: undefined, progress: '' });
+
+  const handleRemove = (item: BatchItem) => setItems(prev => prev.filter(i => i.id !== item.id));
+
+  const handleClearFinished = () => setItems(prev => prev.filter(item => item.status !== 'done'));
+
+  const getStatusInfo = (status: BatchStatus) => {
+    switch (status) {
+      case 'queued': return { icon: <Clock className="w-4 h-4" />, label: 'Queued', style: 'text-gray-500 dark:text-gray-400' };
+      case 'parsing': return { icon: <Loader2 className="w-4 h-4 animate-spin" />, label: 'Parsing', style: 'text-indigo-600 dark:text-indigo-400' };
+      case 'generating': return { icon: <Loader2 className="w-4 h-4 animate-spin" />, label: 'Generating', style: 'text-indigo-600 dark:text-indigo-400' };
+      case 'done': return { icon: <CheckCircle2 className="w-4 h-4" />, label: 'Done', style: 'text-green-600 dark:text-green-400' };
+      case 'failed': return { icon: <AlertCircle className="w-4 h-4" />, label: 'Failed', style: 'text-red-600 dark:text-red-400' };
+      case 'cancelled': return { icon: <Ban className="w-4 h-4" />, label: 'Cancelled', style: 'text-amber-600 dark:text-amber-400' };
+    }
+  };
+
+  const doneCount = items.filter(item => item.status === 'done').length;
+
+  return (
+    <div className="mt-8 bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden transition-colors">
+      <div className="bg-gray-50 dark:bg-gray-900/50 border-b border-gray-200 dark:border-gray-700 p-4 flex items-center justify-between">
+        <h3 className="font-semibold text-gray-900 dark:text-white flex items-center">
+          <Layers className="w-4 h-4 mr-2 text-indigo-600 dark:text-indigo-400" />
+          Batch Queue
+          <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+            {doneCount} of {items.length} done
+          </span>
+        </h3>
+        {doneCount > 0 && (
+          <button
+            onClick={handleClearFinished}
+            className="text-xs font-medium text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors"
+          >
+            Clear finished
+          </button>
+        )}
+      </div>
+
+      <ul className="divide-y divide-gray-100 dark:divide-gray-700 max-h-96 overflow-y-auto custom-scrollbar">
+        {items.map(item => {
+          const statusInfo = getStatusInfo(item.status);
+          const modeName = findMode(item.modeId)?.name || 'Unknown mode';
+          return (
+            <li key={item.id} className="px-4 py-3 flex items-center justify-between gap-3">
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium text-gray-900 dark:text-white truncate" title={item.fileData.file.name}>
+                  {item.fileData.file.name}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                  {modeName}
+                  {item.progress && ` · ${item.progress}`}
+                  {item.error && <span className="text-red-600 dark:text-red-400"> · {item.error}</span>}
+                </p>
+              </div>
+
+              <span className={`flex items-center text-xs font-medium ${statusInfo.style}`}>
+                {statusInfo.icon}
+                <span className="ml-1">{statusInfo.label}</span>
+              </span>
+
+              <div className="flex items-center space-x-1">
+                {item.status === 'done' && item.result && (
+                  <button
+                    onClick={() => onOpen(item.result!)}
+                    className="p-1.5 text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 rounded-md transition-colors"
+                    title="View summary"
+                  >
+                    <ArrowRight className="w-4 h-4" />
+                  </button>
+                )}
+                {(item.status === 'failed' || item.status === 'cancelled') && (
+                  <button
+                    onClick={() => handleRetry(item)}
+                    className="p-1.5 text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 rounded-md transition-colors"
+                    title="Retry"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </button>
+                )}
+                {item.status === 'queued' || isRunning(item.status) ? (
+                  <button
+                    onClick={() => handleCancel(item)}
+                    className="p-1.5 text-gray-400 hover:text-red-600 dark:hover:text-red-400 rounded-md transition-colors"
+                    title="Cancel"
+                  >
+                    <Ban className="w-4 h-4" />
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => handleRemove(item)}
+                    className="p-1.5 text-gray-400 hover:text-red-600 dark:hover:text-red-400 rounded-md transition-colors"
+                    title="Remove from queue"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import React, { useRef } from 'react';
+import { ListChecks } from 'lucide-react';
+import { BookChapter } from '../types';
+
+interface ChapterPickerProps {
+  chapters: BookChapter[];
+  selected: number[];
+  onChange: (selected: number[]) => void;
+  disabled: boolean;
+}
+
+export const ChapterPicker: React.FC<ChapterPickerProps> = ({ chapters, selected, onChange, disabled }) => {
+  // Anchor for shift-click range selection
+  const lastClickedRef = useRef<number | null>(null);
+
+  const handleToggle = (index: number, shiftKey: boolean) => {
+    const isChecked = selected.includes(index);
+    const next = new Set(selected);
+
+    if (shiftKey && lastClickedRef.current !== null) {
+      const from = Math.min(lastClickedRef.current, index);
+      const to = Math.max(lastClickedRef.current, index);
+      for (let i = from; i <= to; i++) {
+        if (isChecked) next.delete(i); else next.add(i);
+      }
+    } else if (isChecked) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+
+    lastClickedRef.current = index;
+    onChange(Array.from(next).sort((a, b) => a - b));
+  };
+
+  const formatSize = (chapter: BookChapter) => {
+    if (chapter.startPage) {
+      return chapter.endPage && chapter.endPage !== chapter.startPage
+        ? `pp. ${chapter.startPage}–${chapter.endPage}`
+        : `p. ${chapter.startPage}`;
+    }
+    const words = chapter.text.split(/\s+/).length;
+    return words >= 1000 ? `${(words / 1000).toFixed(1)}k words` : `${words} words`;
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wider flex items-center">
+          <ListChecks className="w-4 h-4 mr-1.5" />
+          Chapters ({selected.length}/{chapters.length} selected)
+        </h4>
+        <div className="flex items-center space-x-3 text-xs font-medium">
+          <button
+            onClick={() => onChange(chapters.map((_, i) => i))}
+            disabled={disabled}
+            className="text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50"
+          >
+            Select all
+          </button>
+          <button
+            onClick={() => onChange([])}
+            disabled={disabled}
+            className="text-gray-500 dark:text-gray-400 hover:underline disabled:opacity-50"
+          >
+            Select none
+          </button>
+        </div>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto custom-scrollbar border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-100 dark:divide-gray-700">
+        {chapters.map((chapter, index) => (
+          <label
+            key={`${chapter.href}-${index}`}
+            onClick={(e) => {
+              e.preventDefault();
+              if (!disabled) handleToggle(index, e.shiftKey);
+            }}
+            className={`flex items-center px-3 py-2 text-sm select-none transition-colors ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50'}`}
+          >
+            <input
+              type="checkbox"
+              checked={selected.includes(index)}
+              readOnly
+              disabled={disabled}
+              className="mr-3 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            <span className="text-xs text-gray-400 w-8 flex-shrink-0">{index + 1}.</span>
+            <span className={`flex-1 truncate ${selected.includes(index) ? 'text-gray-900 dark:text-white' : 'text-gray-400 dark:text-gray-500'}`} title={chapter.title}>
+              {chapter.title || `Section ${index + 1}`}
+            </span>
+            <span className="ml-3 text-xs text-gray-400 dark:text-gray-500 flex-shrink-0">{formatSize(chapter)}</span>
+          </label>
+        ))}
+      </div>
+      <p className="text-[11px] text-gray-400 mt-1.5 ml-1">Shift-click to select a range.</p>
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { MessageSquare, Send, Square, Trash2, BookOpen, FileText } from 'lucide-react';
+import { SummaryResult, ParsedBook, ChatMessage } from '../types';
+import { buildChatGrounding, sendChatMessage } from '../services/chatService';
+import { getActionableMessage } from '../services/errorService';
+
+interface ChatPanelProps {
+  result: SummaryResult;
+  book: ParsedBook | null; // Available only right after processing; history entries fall back to the summary
+  modelId: string;
+  onChatUpdate: (chat: ChatMessage[]) => void;
+}
+
+export const ChatPanel: React.FC<ChatPanelProps> = ({ result, book, modelId, onChatUpdate }) => {
+  const [input, setInput] = useState('');
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+  const [streamingAnswer, setStreamingAnswer] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const messages = result.chat || [];
+  const grounding = useMemo(() => buildChatGrounding(book, result, modelId), [book, result.id, result.text, modelId]);
+
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+  }, [messages.length, streamingAnswer, pendingQuestion]);
+
+  // Cancel an in-flight answer when switching to another result
+  useEffect(() => () => abortRef.current?.abort(), [result.id]);
+
+  const handleSend = async () => {
+    const question = input.trim();
+    if (!question || pendingQuestion) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setInput('');
+    setError(null);
+    setPendingQuestion(question);
+    setStreamingAnswer('');
+
+    try {
+      const answer = await sendChatMessage(
+        modelId, grounding, result.fileName, messages, question, setStreamingAnswer, controller.signal
+      );
+      if (!answer) throw new Error(controller.signal.aborted ? "Stopped before an answer arrived." : "No answer generated.");
+
+      onChatUpdate([
+        ...messages,
+        { role: 'user', text: question, timestamp: Date.now() },
+        { role: 'model', text: answer, timestamp: Date.now() },
+      ]);
+    } catch (err: any) {
+      setError(getActionableMessage(err));
+      setInput(question);
+    } finally {
+      abortRef.current = null;
+      setPendingQuestion(null);
+      setStreamingAnswer('');
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  const renderBubble = (role: ChatMessage['role'], text: string, key: React.Key) => (
+    <div key={key} className={`flex ${role === 'user' ? 'justify-end' : 'justify-start'}`}>
+      <div className={`max-w-[90%] rounded-xl px-3 py-2 text-sm ${
+        role === 'user'
+          ? 'bg-indigo-600 text-white'
+          : 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-100'
+      }`}>
+        {role === 'user' ? (
+          <p className="whitespace-pre-wrap">{text}</p>
+        ) : (
+          <div className="prose prose-sm dark:prose-invert max-w-none">
+            <ReactMarkdown>{text}</ReactMarkdown>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 flex flex-col h-[70vh] lg:h-full lg:max-h-[calc(70vh+4.5rem)] transition-colors">
+      <div className="bg-gray-50 dark:bg-gray-900/50 border-b border-gray-200 dark:border-gray-700 p-4 flex items-center justify-between rounded-t-xl">
+        <div>
+          <h3 className="font-semibold text-gray-900 dark:text-white flex items-center">
+            <MessageSquare className="w-4 h-4 mr-2 text-indigo-600 dark:text-indigo-400" />
+            Ask the Book
+          </h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center mt-0.5">
+            {grounding.source === 'book' ? <BookOpen className="w-3 h-3 mr-1" /> : <FileText className="w-3 h-3 mr-1" />}
+            {grounding.source === 'book'
+              ? (grounding.readUpTo ? `Answers from the text up to the ${grounding.readUpTo}` : 'Answers from the full text')
+              : 'Answers from the summary'}
+          </p>
+        </div>
+        {messages.length > 0 && !pendingQuestion && (
+          <button
+            onClick={() => onChatUpdate([])}
+            className="p-1.5 text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md transition-colors"
+            title="Clear conversation"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      <div ref={scrollRef} className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-3">
+        {messages.length === 0 && !pendingQuestion && (
+          <p className="text-sm text-gray-400 dark:text-gray-500 text-center mt-8">
+            Ask a follow-up question about this book.
+          </p>
+        )}
+        {messages.map((m, i) => renderBubble(m.role, m.text, i))}
+        {pendingQuestion && renderBubble('user', pendingQuestion, 'pending-question')}
+        {pendingQuestion && (streamingAnswer
+          ? renderBubble('model', streamingAnswer, 'pending-answer')
+          : <p key="thinking" className="text-xs text-gray-400 animate-pulse">Thinking...</p>
+        )}
+      </div>
+
+      {error && (
+        <div className="mx-4 mb-2 text-xs text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 p-2 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      <div className="border-t border-gray-200 dark:border-gray-700 p-3 flex items-end space-x-2">
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          rows={2}
+          placeholder="e.g. How does chapter 3 define the main concept?"
+          className="flex-1 resize-none text-sm bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg px-3 py-2 text-gray-900 dark:text-white placeholder-gray-400 outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        {pendingQuestion ? (
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="p-2.5 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors"
+            title="Stop"
+          >
+            <Square className="w-4 h-4 fill-current" />
+          </button>
+        ) : (
+          <button
+            onClick={handleSend}
+            disabled={!input.trim()}
+            className="p-2.5 rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            title="Send"
+          >
+            <Send className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+import React, { useMemo, useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { X, BookOpen, Columns2 } from 'lucide-react';
+import { SummaryResult, AVAILABLE_MODELS } from '../types';
+import { splitSections, alignSections, diffWords, DiffToken, Section } from '../services/compareService';
+import { resolveResultMode } from '../services/modeService';
+import { ModeIconView, getBadgeClass } from './modeAppearance';
+
+interface CompareViewProps {
+  left: SummaryResult;
+  right: SummaryResult;
+  onClose: () => void;
+}
+
+const SideHeader: React.FC<{ result: SummaryResult }> = ({ result }) => {
+  const mode = resolveResultMode(result);
+  const modelName = AVAILABLE_MODELS.find(m => m.id === result.modelId)?.name || result.modelId;
+  return (
+    <div className="px-4 py-3 min-w-0">
+      <div className={`inline-flex items-center gap-1.5 px-1.5 py-1 rounded-md mb-1 ${getBadgeClass(mode.color)}`}>
+        <ModeIconView icon={mode.icon} className="w-3.5 h-3.5" />
+        <span className="text-[10px] font-bold uppercase tracking-wider">{mode.name}</span>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center truncate">
+        <BookOpen className="w-3 h-3 mr-1 shrink-0" />
+        <span className="truncate">{result.fileName}</span>
+      </p>
+      <p className="text-[11px] text-gray-400 dark:text-gray-500 mt-0.5">
+        {modelName && `${modelName} · `}{new Date(result.timestamp).toLocaleString()}
+      </p>
+    </div>
+  );
+};
+
+const DiffText: React.FC<{ tokens: DiffToken[] }> = ({ tokens }) => (
+  <p className="text-sm leading-relaxed whitespace-pre-wrap break-words text-gray-800 dark:text-gray-200">
+    {tokens.map((token, i) => token.op === 'same' ? token.text : (
+      <span
+        key={i}
+        className={token.op === 'added'
+          ? 'bg-green-100 dark:bg-green-900/40 text-green-900 dark:text-green-200 rounded-sm'
+          : 'bg-red-100 dark:bg-red-900/40 text-red-900 dark:text-red-200 line-through rounded-sm'}
+      >
+        {token.text}
+      </span>
+    ))}
+  </p>
+);
+
+// Two summaries in columns that scroll together, with sections paired up by heading.
+// Summaries from the same mode can also highlight word-level changes.
+export const CompareView: React.FC<CompareViewProps> = ({ left, right, onClose }) => {
+  const leftMode = resolveResultMode(left);
+  const sameMode = left.mode === right.mode;
+  const isStructured = leftMode.outputFormat === 'json' || resolveResultMode(right).outputFormat === 'json';
+  const [showDiff, setShowDiff] = useState(sameMode);
+
+  const leftRef = useRef<HTMLDivElement>(null);
+  const rightRef = useRef<HTMLDivElement>(null);
+  const syncingRef = useRef<HTMLDivElement | null>(null); // Column being scrolled programmatically
+
+  const rows = useMemo(
+    () => alignSections(splitSections(left.text), splitSections(right.text)),
+    [left.text, right.text]
+  );
+
+  // Per row: the left text minus additions and the right text minus removals
+  const diffs = useMemo(() => {
+    if (!showDiff || !sameMode) return null;
+    return rows.map(row => {
+      const tokens = diffWords(row.left?.body || '', row.right?.body || '');
+      return {
+        left: tokens.filter(t => t.op !== 'added'),
+        right: tokens.filter(t => t.op !== 'removed'),
+      };
+    });
+  }, [rows, showDiff, sameMode]);
+
+  // Keep the other column at the same position within the same section
+  const handleScroll = (source: HTMLDivElement | null, target: HTMLDivElement | null) => {
+    if (!source || !target) return;
+    if (syncingRef.current === source) return;
+
+    const sections = Array.from(source.querySelectorAll<HTMLElement>('[data-row]'));
+    const current = sections.filter(el => el.offsetTop <= source.scrollTop).pop() || sections[0];
+    const counterpart = current && target.querySelector<HTMLElement>(`[data-row="${current.dataset.row}"]`);
+    if (!current || !counterpart) return;
+
+    const fraction = Math.min(1, (source.scrollTop - current.offsetTop) / Math.max(1, current.offsetHeight));
+    syncingRef.current = target;
+    target.scrollTop = counterpart.offsetTop + fraction * counterpart.offsetHeight;
+    // The resulting scroll event fires before the next frame
+    requestAnimationFrame(() => { syncingRef.current = null; });
+  };
+
+  const renderSide = (section: Section | undefined, tokens: DiffToken[] | undefined, index: number) => (
+    <section key={index} data-row={index} className="pb-6">
+      {section?.heading && (
+        <h3 className="text-base font-bold text-gray-900 dark:text-white mb-2">{section.heading}</h3>
+      )}
+      {!section ? (
+        <p className="text-sm italic text-gray-400 dark:text-gray-500 border border-dashed border-gray-200 dark:border-gray-700 rounded-lg p-3">
+          No matching section{rows[index].heading && ` for "${rows[index].heading}"`}
+        </p>
+      ) : tokens ? (
+        <DiffText tokens={tokens} />
+      ) : isStructured ? (
+        <pre className="text-xs font-mono whitespace-pre-wrap break-words text-gray-800 dark:text-gray-200">{section.body}</pre>
+      ) : (
+        <article className="prose prose-indigo dark:prose-invert prose-sm max-w-none">
+          <ReactMarkdown>{section.body}</ReactMarkdown>
+        </article>
+      )}
+    </section>
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl shadow-gray-200/50 dark:shadow-none border border-gray-100 dark:border-gray-700 overflow-hidden">
+      <div className="flex items-center justify-between px-6 py-4 border-b border-gray-100 dark:border-gray-700 bg-gray-50/50 dark:bg-gray-900/50">
+        <h3 className="font-bold text-gray-900 dark:text-white flex items-center">
+          <Columns2 className="w-5 h-5 mr-2 text-indigo-600 dark:text-indigo-400" />
+          Compare Summaries
+        </h3>
+        <div className="flex items-center space-x-4">
+          {sameMode ? (
+            <label className="flex items-center text-sm text-gray-600 dark:text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showDiff}
+                onChange={(e) => setShowDiff(e.target.checked)}
+                className="mr-2 rounded text-indigo-600 focus:ring-indigo-500"
+              />
+              Highlight word changes
+            </label>
+          ) : (
+            <span className="text-xs text-gray-400 dark:text-gray-500">Word highlighting needs two summaries from the same mode</span>
+          )}
+          <button
+            onClick={onClose}
+            className="p-1.5 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+            title="Close comparison"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 divide-x divide-gray-100 dark:divide-gray-700 border-b border-gray-100 dark:border-gray-700">
+        <SideHeader result={left} />
+        <SideHeader result={right} />
+      </div>
+
+      <div className="grid grid-cols-2 divide-x divide-gray-100 dark:divide-gray-700">
+        <div
+          ref={leftRef}
+          onScroll={() => handleScroll(leftRef.current, rightRef.current)}
+          className="relative p-6 overflow-y-auto max-h-[70vh] custom-scrollbar min-w-0"
+        >
+          {rows.map((row, i) => renderSide(row.left, diffs?.[i].left, i))}
+        </div>
+        <div
+          ref={rightRef}
+          onScroll={() => handleScroll(rightRef.current, leftRef.current)}
+          className="relative p-6 overflow-y-auto max-h-[70vh] custom-scrollbar min-w-0"
+        >
+          {rows.map((row, i) => renderSide(row.right, diffs?.[i].right, i))}
+        </div>
+      </div>
+    </div>
+  );
+};
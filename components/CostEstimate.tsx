@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { Coins, ChevronDown, ChevronUp, AlertTriangle } from 'lucide-react';
+import { FileData, ParsedBook, ModeDefinition } from '../types';
+import { estimateRequest, RequestEstimate, formatCost, formatTokens } from '../services/costService';
+import { buildSystemInstruction } from '../services/geminiService';
+import { formatBookText } from '../services/epubService';
+import { encodeBase64 } from '../services/bookWorkerClient';
+
+interface CostEstimateProps {
+  fileData: FileData;
+  book: ParsedBook | null;
+  selectedChapters: number[];
+  mode: ModeDefinition;
+  modelId: string;
+}
+
+// Wait for the chapter selection to settle before counting again
+const RECOUNT_DELAY_MS = 600;
+
+export const CostEstimate: React.FC<CostEstimateProps> = ({ fileData, book, selectedChapters, mode, modelId }) => {
+  const [estimate, setEstimate] = useState<RequestEstimate | null>(null);
+  const [isCounting, setIsCounting] = useState(false);
+  const [showModels, setShowModels] = useState(false);
+
+  useEffect(() => {
+    if (book && selectedChapters.length === 0) {
+      setEstimate(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsCounting(true);
+    const timer = setTimeout(async () => {
+      try {
+        const content = book
+          ? { text: formatBookText({ ...book, chapters: book.chapters.filter((_, i) => selectedChapters.includes(i)) }) }
+          : { inlineData: { data: await encodeBase64(fileData.file), mimeType: fileData.mimeType } };
+        const result = await estimateRequest(content, mode, buildSystemInstruction(mode), modelId);
+        if (!cancelled) setEstimate(result);
+      } catch (err) {
+        console.error("Failed to estimate request", err);
+        if (!cancelled) setEstimate(null);
+      } finally {
+        if (!cancelled) setIsCounting(false);
+      }
+    }, RECOUNT_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [fileData, book, selectedChapters, mode, modelId]);
+
+  if (!estimate) {
+    return isCounting ? (
+      <p className="text-xs text-gray-400 animate-pulse mb-4">Counting tokens...</p>
+    ) : null;
+  }
+
+  const selected = estimate.models.find(m => m.model.id === modelId);
+  const unknownSize = estimate.inputTokens === 0;
+
+  return (
+    <div className={`mb-4 text-sm rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/40 p-3 transition-opacity ${isCounting ? 'opacity-60' : ''}`}>
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+        <span className="flex items-center text-gray-700 dark:text-gray-200 font-medium">
+          <Coins className="w-4 h-4 mr-1.5 text-amber-500" />
+          {unknownSize ? 'Token count unavailable' : `${estimate.exact ? '' : '≈ '}${formatTokens(estimate.inputTokens)} input tokens`}
+        </span>
+        {selected && !unknownSize && (
+          <span className={`flex items-center text-xs ${selected.fitsContext ? 'text-gray-500 dark:text-gray-400' : 'text-amber-700 dark:text-amber-400'}`}>
+            {!selected.fitsContext && <AlertTriangle className="w-3 h-3 mr-1" />}
+            {selected.fitsContext
+              ? `Fits the ${formatTokens(selected.model.contextWindow)} context window`
+              : `Exceeds the ${formatTokens(selected.model.contextWindow)} context window`}
+            {selected.parts > 1 && ` · processed in ${selected.parts} parts`}
+          </span>
+        )}
+        {selected && !unknownSize && (
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            Est. cost: {selected.costUsd !== undefined ? formatCost(selected.costUsd) : 'free (self-hosted)'}
+          </span>
+        )}
+        {!unknownSize && estimate.models.length > 1 && (
+          <button
+            onClick={() => setShowModels(!showModels)}
+            className="ml-auto flex items-center text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+          >
+            Compare models
+            {showModels ? <ChevronUp className="w-3 h-3 ml-0.5" /> : <ChevronDown className="w-3 h-3 ml-0.5" />}
+          </button>
+        )}
+      </div>
+
+      {showModels && !unknownSize && (
+        <table className="w-full mt-3 text-xs text-left">
+          <thead className="text-gray-400 uppercase tracking-wider">
+            <tr>
+              <th className="font-semibold pb-1">Model</th>
+              <th className="font-semibold pb-1">Requests</th>
+              <th className="font-semibold pb-1 text-right">Est. cost</th>
+            </tr>
+          </thead>
+          <tbody className="text-gray-700 dark:text-gray-300">
+            {estimate.models.map(m => (
+              <tr key={m.model.id} className={m.model.id === modelId ? 'font-semibold' : ''}>
+                <td className="py-0.5">{m.model.name}</td>
+                <td className="py-0.5">{m.parts > 1 ? `${m.parts} parts + merge` : '1'}</td>
+                <td className="py-0.5 text-right">{m.costUsd !== undefined ? formatCost(m.costUsd) : 'free'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <p className="text-[11px] text-gray-400 mt-1.5">
+        {estimate.exact ? 'Counted' : 'Estimated'} with the selected model; output size is assumed.
+      </p>
+    </div>
+  );
+};
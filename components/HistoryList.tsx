@@ -1,17 +1,49 @@
 import React, { useState } from 'react';
-import { SummaryResult, SummaryMode } from '../types';
-import { Clock, User, Bot, ArrowRight, Copy, Check, Trash2, FileCode, ListTree, BookCopy } from 'lucide-react';
+import { SummaryResult, AVAILABLE_MODELS } from '../types';
+import { StorageUsage } from '../services/historyService';
+import { HistoryFilters, EMPTY_FILTERS, filterHistory, getMatchSnippet, hasActiveFilters } from '../services/searchService';
+import { getModes, resolveResultMode } from '../services/modeService';
+import { formatCost, formatTokens } from '../services/costService';
+import { ModeIconView, getBadgeClass } from './modeAppearance';
+import { Clock, ArrowRight, Copy, Check, Trash2, X, HardDrive, AlertCircle, Search, Coins, Columns2 } from 'lucide-react';
 
 interface HistoryListProps {
   history: SummaryResult[];
-  onSelect: (item: SummaryResult) => void;
+  // query is set when the item was opened from a search match, so the viewer can scroll to it
+  onSelect: (item: SummaryResult, query?: string) => void;
+  onDelete: (item: SummaryResult) => void;
   onClear: () => void;
+  onCompare: (left: SummaryResult, right: SummaryResult) => void;
+  storageUsage: StorageUsage | null;
+  error: string | null;
 }
 
-export const HistoryList: React.FC<HistoryListProps> = ({ history, onSelect, onClear }) => {
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+export const HistoryList: React.FC<HistoryListProps> = ({ history, onSelect, onDelete, onClear, onCompare, storageUsage, error }) => {
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_FILTERS);
+  const [compareIds, setCompareIds] = useState<string[]>([]); // In selection order, at most two
+
+  if (history.length === 0 && !error) return null;
+
+  const filtered = filterHistory(history, filters);
+  const isFiltering = hasActiveFilters(filters);
+  const query = filters.query.trim();
+  const modelIds = Array.from(new Set(history.map(item => item.modelId).filter((id): id is string => !!id)));
+  const totalTokens = history.reduce((sum, item) => sum + (item.usage ? item.usage.inputTokens + item.usage.outputTokens : 0), 0);
+  const totalCost = history.reduce((sum, item) => sum + (item.usage?.costUsd || 0), 0);
 
-  if (history.length === 0) return null;
+  const updateFilter = <K extends keyof HistoryFilters>(key: K, value: HistoryFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const getModelName = (id: string) => AVAILABLE_MODELS.find(m => m.id === id)?.name || id;
 
   const handleCopy = (e: React.MouseEvent, item: SummaryResult) => {
     e.stopPropagation();
@@ -20,60 +52,54 @@ export const HistoryList: React.FC<HistoryListProps> = ({ history, onSelect, onC
     setTimeout(() => setCopiedId(null), 2000);
   };
 
+  // Selecting a third entry replaces the earlier of the two
+  const toggleCompare = (e: React.MouseEvent, item: SummaryResult) => {
+    e.stopPropagation();
+    setCompareIds(prev => prev.includes(item.id) ? prev.filter(id => id !== item.id) : [...prev, item.id].slice(-2));
+  };
+
+  const handleCompare = () => {
+    const [left, right] = compareIds.map(id => history.find(item => item.id === id));
+    if (left && right) onCompare(left, right);
+    setCompareIds([]);
+  };
+
+  const handleDelete = (e: React.MouseEvent, item: SummaryResult) => {
+    e.stopPropagation();
+    onDelete(item);
+  };
+
   const formatDate = (timestamp: number) => {
     return new Intl.DateTimeFormat('en-US', {
       month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit'
     }).format(new Date(timestamp));
   };
 
-  const getModeInfo = (mode: SummaryMode) => {
-    switch(mode) {
-      case SummaryMode.HUMAN:
-        return { 
-          icon: <User className="w-4 h-4" />, 
-          label: 'Human', 
-          style: 'bg-indigo-100 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-400' 
-        };
-      case SummaryMode.AI_AGENT:
-        return { 
-          icon: <Bot className="w-4 h-4" />, 
-          label: 'AI Agent', 
-          style: 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-400' 
-        };
-      case SummaryMode.MARKDOWN:
-        return { 
-          icon: <FileCode className="w-4 h-4" />, 
-          label: 'Markdown', 
-          style: 'bg-teal-100 dark:bg-teal-900/30 text-teal-700 dark:text-teal-400' 
-        };
-      case SummaryMode.TOPIC_ANALYSIS:
-        return {
-          icon: <ListTree className="w-4 h-4" />,
-          label: 'Topic Analysis',
-          style: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400'
-        };
-      case SummaryMode.CHAPTER_BY_CHAPTER:
-        return {
-          icon: <BookCopy className="w-4 h-4" />,
-          label: 'Chapters',
-          style: 'bg-rose-100 dark:bg-rose-900/30 text-rose-700 dark:text-rose-400'
-        };
-      default:
-         return { 
-          icon: <User className="w-4 h-4" />, 
-          label: 'Unknown', 
-          style: 'bg-gray-100 text-gray-700' 
-        };
-    }
-  };
-
   return (
     <div className="mt-24 border-t border-gray-200 dark:border-gray-700 pt-10 animate-in slide-in-from-bottom-8 duration-700">
       <div className="flex items-center justify-between mb-6">
-        <h3 className="text-lg font-bold text-gray-900 dark:text-white flex items-center">
-          <Clock className="w-5 h-5 mr-2 text-gray-500 dark:text-gray-400" />
-          Previous Summaries
-        </h3>
+        <div>
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white flex items-center">
+            <Clock className="w-5 h-5 mr-2 text-gray-500 dark:text-gray-400" />
+            Previous Summaries
+          </h3>
+          <p className="text-xs text-gray-400 dark:text-gray-500 mt-1 ml-7 flex items-center">
+            {isFiltering ? `${filtered.length} of ${history.length} shown` : `${history.length} saved`}
+            {storageUsage && (
+              <span className="flex items-center ml-2" title="Storage used by this app in your browser">
+                <HardDrive className="w-3 h-3 mr-1" />
+                {formatBytes(storageUsage.usage)}
+                {storageUsage.quota > 0 && ` of ${formatBytes(storageUsage.quota)}`}
+              </span>
+            )}
+            {totalTokens > 0 && (
+              <span className="flex items-center ml-2" title="Tokens used and estimated spend across saved summaries">
+                <Coins className="w-3 h-3 mr-1" />
+                {formatTokens(totalTokens)} tokens · {formatCost(totalCost)}
+              </span>
+            )}
+          </p>
+        </div>
         <button 
           onClick={onClear}
           className="text-xs text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 flex items-center transition-colors bg-red-50 dark:bg-red-900/20 px-3 py-1.5 rounded-full"
@@ -82,21 +108,119 @@ export const HistoryList: React.FC<HistoryListProps> = ({ history, onSelect, onC
           Clear History
         </button>
       </div>
+
+      {error && (
+        <div className="mb-4 flex items-start text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 p-3 rounded-lg border border-red-100 dark:border-red-900/30">
+          <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0 mt-0.5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="mb-4 space-y-2">
+        <div className="relative">
+          <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            type="search"
+            value={filters.query}
+            onChange={(e) => updateFilter('query', e.target.value)}
+            placeholder="Search summaries and file names..."
+            className="w-full pl-9 pr-3 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-gray-900 dark:text-white placeholder-gray-400 outline-none focus:ring-2 focus:ring-indigo-500 transition-all"
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <select
+            value={filters.mode}
+            onChange={(e) => updateFilter('mode', e.target.value)}
+            className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 py-1.5 px-2 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500"
+            aria-label="Filter by mode"
+          >
+            <option value="">All modes</option>
+            {getModes().map(m => (
+              <option key={m.id} value={m.id}>{m.name}</option>
+            ))}
+          </select>
+          <select
+            value={filters.modelId}
+            onChange={(e) => updateFilter('modelId', e.target.value)}
+            className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 py-1.5 px-2 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500"
+            aria-label="Filter by model"
+          >
+            <option value="">All models</option>
+            {modelIds.map(id => (
+              <option key={id} value={id}>{getModelName(id)}</option>
+            ))}
+          </select>
+          <label className="flex items-center text-gray-500 dark:text-gray-400">
+            From
+            <input
+              type="date"
+              value={filters.dateFrom}
+              onChange={(e) => updateFilter('dateFrom', e.target.value)}
+              className="ml-1.5 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 py-1 px-2 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </label>
+          <label className="flex items-center text-gray-500 dark:text-gray-400">
+            To
+            <input
+              type="date"
+              value={filters.dateTo}
+              onChange={(e) => updateFilter('dateTo', e.target.value)}
+              className="ml-1.5 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 py-1 px-2 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </label>
+          {isFiltering && (
+            <button
+              onClick={() => setFilters(EMPTY_FILTERS)}
+              className="text-indigo-600 dark:text-indigo-400 hover:underline font-medium"
+            >
+              Reset filters
+            </button>
+          )}
+        </div>
+      </div>
       
+      {compareIds.length > 0 && (
+        <div className="mb-4 flex items-center justify-between text-sm bg-indigo-50 dark:bg-indigo-900/20 text-indigo-700 dark:text-indigo-300 px-4 py-2 rounded-lg">
+          <span className="flex items-center">
+            <Columns2 className="w-4 h-4 mr-2" />
+            {compareIds.length === 1 ? 'Select one more summary to compare' : '2 summaries selected'}
+          </span>
+          <div className="flex items-center space-x-3">
+            <button onClick={() => setCompareIds([])} className="text-xs hover:underline">Cancel</button>
+            <button
+              onClick={handleCompare}
+              disabled={compareIds.length < 2}
+              className="text-xs font-semibold bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-1.5 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Compare
+            </button>
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        {history.map((item) => {
-          const modeInfo = getModeInfo(item.mode);
+        {filtered.length === 0 && (
+          <p className="text-sm text-gray-400 dark:text-gray-500 col-span-full text-center py-6">
+            No summaries match the current filters.
+          </p>
+        )}
+        {filtered.map((item) => {
+          const mode = resolveResultMode(item);
+          const snippet = getMatchSnippet(item.text, query);
+          const isComparing = compareIds.includes(item.id);
           return (
             <div 
               key={item.id}
-              onClick={() => onSelect(item)}
-              className="group bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl p-4 hover:border-indigo-300 dark:hover:border-indigo-500 hover:shadow-md transition-all cursor-pointer relative overflow-hidden"
+              onClick={() => onSelect(item, snippet ? query : undefined)}
+              className={`group bg-white dark:bg-gray-800 border rounded-xl p-4 hover:border-indigo-300 dark:hover:border-indigo-500 hover:shadow-md transition-all cursor-pointer relative overflow-hidden ${
+                isComparing ? 'border-indigo-500 ring-1 ring-indigo-500' : 'border-gray-200 dark:border-gray-700'
+              }`}
             >
               <div className="flex justify-between items-start mb-3">
-                <div className={`p-1.5 rounded-md flex items-center gap-2 ${modeInfo.style}`}>
-                  {modeInfo.icon}
+                <div className={`p-1.5 rounded-md flex items-center gap-2 ${getBadgeClass(mode.color)}`}>
+                  <ModeIconView icon={mode.icon} className="w-4 h-4" />
                   <span className="text-[10px] font-bold uppercase tracking-wider">
-                    {modeInfo.label}
+                    {mode.name}
                   </span>
                 </div>
                 <span className="text-xs text-gray-400 dark:text-gray-500 font-medium">
@@ -105,22 +229,50 @@ export const HistoryList: React.FC<HistoryListProps> = ({ history, onSelect, onC
               </div>
               
               <h4 className="font-semibold text-gray-900 dark:text-white truncate mb-2" title={item.fileName}>{item.fileName}</h4>
-              <p className="text-xs text-gray-500 dark:text-gray-400 line-clamp-2 mb-4 h-8 font-mono leading-relaxed opacity-80">
-                {item.text.substring(0, 150).replace(/[#*`]/g, '')}...
-              </p>
+              {snippet ? (
+                <p className="text-xs text-gray-500 dark:text-gray-400 line-clamp-2 mb-4 h-8 font-mono leading-relaxed">
+                  {snippet.before}
+                  <mark className="bg-yellow-200 dark:bg-yellow-500/40 text-gray-900 dark:text-white rounded-sm px-0.5">{snippet.match}</mark>
+                  {snippet.after}
+                </p>
+              ) : (
+                <p className="text-xs text-gray-500 dark:text-gray-400 line-clamp-2 mb-4 h-8 font-mono leading-relaxed opacity-80">
+                  {item.text.substring(0, 150).replace(/[#*`]/g, '')}...
+                </p>
+              )}
               
               <div className="flex items-center justify-between mt-2 pt-3 border-t border-gray-100 dark:border-gray-700">
                  <span className="text-xs font-medium text-indigo-600 dark:text-indigo-400 group-hover:translate-x-1 transition-transform flex items-center">
                    View Result <ArrowRight className="w-3 h-3 ml-1" />
                  </span>
                  
-                 <button
-                   onClick={(e) => handleCopy(e, item)}
-                   className="p-1.5 text-gray-400 dark:text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors z-10"
-                   title="Copy text"
-                 >
-                   {copiedId === item.id ? <Check className="w-4 h-4 text-green-600 dark:text-green-400" /> : <Copy className="w-4 h-4" />}
-                 </button>
+                 <div className="flex items-center">
+                   <button
+                     onClick={(e) => toggleCompare(e, item)}
+                     className={`p-1.5 rounded-md transition-colors z-10 ${
+                       isComparing
+                         ? 'text-indigo-600 dark:text-indigo-400 bg-indigo-50 dark:bg-indigo-900/30'
+                         : 'text-gray-400 dark:text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                     }`}
+                     title={isComparing ? "Remove from comparison" : "Select for comparison"}
+                   >
+                     <Columns2 className="w-4 h-4" />
+                   </button>
+                   <button
+                     onClick={(e) => handleCopy(e, item)}
+                     className="p-1.5 text-gray-400 dark:text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors z-10"
+                     title="Copy text"
+                   >
+                     {copiedId === item.id ? <Check className="w-4 h-4 text-green-600 dark:text-green-400" /> : <Copy className="w-4 h-4" />}
+                   </button>
+                   <button
+                     onClick={(e) => handleDelete(e, item)}
+                     className="p-1.5 text-gray-400 dark:text-gray-500 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md transition-colors z-10"
+                     title="Delete"
+                   >
+                     <X className="w-4 h-4" />
+                   </button>
+                 </div>
               </div>
             </div>
           );
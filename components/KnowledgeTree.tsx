@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { ChevronRight, ChevronDown } from 'lucide-react';
+import { KnowledgeDocument } from '../types';
+
+interface KnowledgeTreeProps {
+  document: KnowledgeDocument;
+}
+
+// Fields that identify an item when it is collapsed, in order of preference
+const LABEL_FIELDS = ['name', 'term', 'statement', 'cause'];
+
+// Helper to describe a collapsed node: array length, or the item's identifying field
+const getSummary = (value: object): string => {
+  if (Array.isArray(value)) return `${value.length} ${value.length === 1 ? 'item' : 'items'}`;
+  const record = value as Record<string, unknown>;
+  const field = LABEL_FIELDS.find(key => typeof record[key] === 'string' && record[key]);
+  if (!field) return '';
+  return field === 'cause' ? `${record.cause} → ${record.effect}` : String(record[field]);
+};
+
+const TreeNode: React.FC<{ name: string; value: unknown; depth: number }> = ({ name, value, depth }) => {
+  const [open, setOpen] = useState(depth === 0);
+
+  if (value === null || typeof value !== 'object') {
+    return (
+      <div className="flex text-sm py-0.5" style={{ paddingLeft: depth * 16 + 20 }}>
+        <span className="text-gray-500 dark:text-gray-400 mr-2 shrink-0">{name}:</span>
+        <span className="text-gray-800 dark:text-gray-100 break-words min-w-0">
+          {value === '' ? <em className="text-gray-400">none</em> : String(value)}
+        </span>
+      </div>
+    );
+  }
+
+  const entries = Array.isArray(value) ? value.map((item, i) => [String(i + 1), item] as const) : Object.entries(value);
+
+  return (
+    <div>
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center w-full text-left text-sm py-0.5 rounded hover:bg-gray-50 dark:hover:bg-gray-700/50"
+        style={{ paddingLeft: depth * 16 }}
+        aria-expanded={open}
+      >
+        {open ? <ChevronDown className="w-4 h-4 mr-1 text-gray-400 shrink-0" /> : <ChevronRight className="w-4 h-4 mr-1 text-gray-400 shrink-0" />}
+        <span className={`mr-2 shrink-0 ${depth === 0 ? 'font-semibold text-gray-900 dark:text-white capitalize' : 'text-gray-500 dark:text-gray-400'}`}>
+          {name}
+        </span>
+        {!open && <span className="text-gray-700 dark:text-gray-300 truncate">{getSummary(value)}</span>}
+        {open && Array.isArray(value) && <span className="text-xs text-gray-400">{getSummary(value)}</span>}
+      </button>
+      {open && entries.map(([key, child]) => (
+        <TreeNode key={key} name={key} value={child} depth={depth + 1} />
+      ))}
+    </div>
+  );
+};
+
+// Collapsible view of a structured knowledge document; each top-level section starts expanded
+export const KnowledgeTree: React.FC<KnowledgeTreeProps> = ({ document }) => (
+  <div className="space-y-2">
+    {document.title && (
+      <h2 className="text-lg font-bold text-gray-900 dark:text-white mb-3">{document.title}</h2>
+    )}
+    {(['entities', 'definitions', 'claims', 'relations'] as const).map(section => (
+      <TreeNode key={section} name={section} value={document[section]} depth={0} />
+    ))}
+  </div>
+);
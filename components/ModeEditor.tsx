@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { X, Save } from 'lucide-react';
+import { ModeDefinition } from '../types';
+import { MODE_COLORS, MODE_ICONS, ModeIconView, getBadgeClass, getButtonClass } from './modeAppearance';
+
+interface ModeEditorProps {
+  mode: ModeDefinition;
+  onSave: (mode: ModeDefinition) => void;
+  onCancel: () => void;
+}
+
+export const ModeEditor: React.FC<ModeEditorProps> = ({ mode, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<ModeDefinition>(mode);
+
+  const update = <K extends keyof ModeDefinition>(key: K, value: ModeDefinition[K]) =>
+    setDraft(prev => ({ ...prev, [key]: value }));
+
+  const canSave = draft.name.trim() !== '' && draft.systemPrompt.trim() !== '';
+
+  const handleSave = () => {
+    if (!canSave) return;
+    const name = draft.name.trim();
+    onSave({
+      ...draft,
+      name,
+      label: name,
+      buttonLabel: `Generate ${name}`,
+      description: draft.description.trim(),
+    });
+  };
+
+  const inputClass = "w-full text-sm bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg px-3 py-2 text-gray-900 dark:text-white placeholder-gray-400 outline-none focus:ring-2 focus:ring-indigo-500";
+  const labelClass = "block text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1.5";
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/40 flex items-center justify-center p-4" onClick={onCancel}>
+      <div
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-xl border border-gray-200 dark:border-gray-700 w-full max-w-2xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="font-semibold text-gray-900 dark:text-white">
+            Custom Mode
+          </h3>
+          <button onClick={onCancel} className="p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 rounded-md" aria-label="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto custom-scrollbar">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Name</label>
+              <input value={draft.name} onChange={(e) => update('name', e.target.value)} className={inputClass} placeholder="e.g. Study Notes" />
+            </div>
+            <div>
+              <label className={labelClass}>Description</label>
+              <input value={draft.description} onChange={(e) => update('description', e.target.value)} className={inputClass} placeholder="Shown on the mode card" />
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Icon</label>
+            <div className="flex flex-wrap gap-2">
+              {MODE_ICONS.map(icon => (
+                <button
+                  key={icon}
+                  onClick={() => update('icon', icon)}
+                  className={`p-2 rounded-lg border-2 transition-colors ${
+                    draft.icon === icon
+                      ? `border-${draft.color}-600 ${getBadgeClass(draft.color)}`
+                      : 'border-transparent bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400'
+                  }`}
+                  title={icon}
+                >
+                  <ModeIconView icon={icon} className="w-4 h-4" />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Color</label>
+            <div className="flex flex-wrap gap-2">
+              {MODE_COLORS.map(color => (
+                <button
+                  key={color}
+                  onClick={() => update('color', color)}
+                  className={`h-7 w-7 rounded-full bg-${color}-500 ${draft.color === color ? `ring-2 ring-offset-2 ring-${color}-500 dark:ring-offset-gray-800` : ''}`}
+                  title={color}
+                  aria-label={color}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>System Prompt</label>
+            <textarea
+              value={draft.systemPrompt}
+              onChange={(e) => update('systemPrompt', e.target.value)}
+              rows={10}
+              className={`${inputClass} font-mono text-xs`}
+            />
+          </div>
+
+          <div>
+            <label className={labelClass}>Output Hints</label>
+            <textarea
+              value={draft.outputHints}
+              onChange={(e) => update('outputHints', e.target.value)}
+              rows={3}
+              className={inputClass}
+              placeholder="Optional, e.g. Use bullet points only. Keep it under 800 words."
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-end">
+            <div>
+              <label className={labelClass}>Temperature: {draft.temperature.toFixed(1)}</label>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.1}
+                value={draft.temperature}
+                onChange={(e) => update('temperature', parseFloat(e.target.value))}
+                className="w-full accent-indigo-600"
+              />
+            </div>
+            <label className="flex items-center text-sm text-gray-700 dark:text-gray-200 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.concatenateChunks}
+                onChange={(e) => update('concatenateChunks', e.target.checked)}
+                className="mr-2 accent-indigo-600"
+              />
+              Conversion mode (join parts of long books instead of merging)
+            </label>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-2 p-4 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onCancel}
+            className="text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 px-4 py-2 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!canSave}
+            className={`flex items-center text-sm font-medium text-white px-4 py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${getButtonClass(draft.color)}`}
+          >
+            <Save className="w-4 h-4 mr-1.5" />
+            Save Mode
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
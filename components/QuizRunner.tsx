@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { CheckCircle2, XCircle, RotateCcw, ArrowRight, Trophy } from 'lucide-react';
+import { QuizQuestion } from '../types';
+
+interface QuizRunnerProps {
+  questions: QuizQuestion[];
+  renderChapter: (item: QuizQuestion) => React.ReactNode;
+}
+
+const OPTION_LETTERS = 'ABCDEFGHIJ';
+
+// Helper to shuffle question order for each attempt
+const shuffle = <T,>(items: T[]): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+// One question at a time: pick an answer, see whether it was right and why, then move on
+export const QuizRunner: React.FC<QuizRunnerProps> = ({ questions, renderChapter }) => {
+  const [order, setOrder] = useState(() => questions.map((_, i) => i));
+  const [position, setPosition] = useState(0);
+  const [answer, setAnswer] = useState<number | null>(null);
+  const [score, setScore] = useState(0);
+
+  if (questions.length === 0) {
+    return <p className="text-sm text-gray-400 text-center py-8">This deck has no quiz questions.</p>;
+  }
+
+  const restart = (shuffled: boolean) => {
+    setOrder(shuffled ? shuffle(questions.map((_, i) => i)) : questions.map((_, i) => i));
+    setPosition(0);
+    setAnswer(null);
+    setScore(0);
+  };
+
+  if (position >= order.length) {
+    const percent = Math.round((score / order.length) * 100);
+    return (
+      <div className="text-center py-8 space-y-4">
+        <Trophy className="w-10 h-10 mx-auto text-amber-500" />
+        <p className="text-2xl font-bold text-gray-900 dark:text-white">{score} / {order.length}</p>
+        <p className="text-sm text-gray-500 dark:text-gray-400">{percent}% correct</p>
+        <div className="flex justify-center space-x-3">
+          <button
+            onClick={() => restart(false)}
+            className="flex items-center text-sm font-medium text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 px-4 py-2 rounded-lg transition-colors"
+          >
+            <RotateCcw className="w-4 h-4 mr-1.5" />
+            Try again
+          </button>
+          <button
+            onClick={() => restart(true)}
+            className="flex items-center text-sm font-medium text-white bg-orange-600 hover:bg-orange-700 px-4 py-2 rounded-lg transition-colors"
+          >
+            Shuffle & retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const question = questions[order[position]];
+  const answered = answer !== null;
+
+  const handleAnswer = (index: number) => {
+    if (answered) return;
+    setAnswer(index);
+    if (index === question.correctIndex) setScore(score + 1);
+  };
+
+  const optionClass = (index: number) => {
+    if (!answered) return 'border-gray-200 dark:border-gray-700 hover:border-orange-400 dark:hover:border-orange-500 hover:bg-orange-50 dark:hover:bg-orange-900/20';
+    if (index === question.correctIndex) return 'border-green-500 bg-green-50 dark:bg-green-900/20';
+    if (index === answer) return 'border-red-500 bg-red-50 dark:bg-red-900/20';
+    return 'border-gray-200 dark:border-gray-700 opacity-60';
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between text-xs text-gray-400">
+        <span>Question {position + 1} of {order.length}</span>
+        <span>Score: {score}</span>
+      </div>
+      <div className="h-1 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+        <div className="h-full bg-orange-500 transition-all" style={{ width: `${(position / order.length) * 100}%` }} />
+      </div>
+
+      <p className="font-semibold text-gray-900 dark:text-white">{question.question}</p>
+      <div className="space-y-2">
+        {question.options.map((option, index) => (
+          <button
+            key={index}
+            onClick={() => handleAnswer(index)}
+            disabled={answered}
+            className={`w-full flex items-center text-left text-sm p-3 rounded-lg border transition-colors text-gray-800 dark:text-gray-200 ${optionClass(index)}`}
+          >
+            <span className="font-bold text-gray-400 w-6 shrink-0">{OPTION_LETTERS[index]}</span>
+            <span className="flex-1">{option}</span>
+            {answered && index === question.correctIndex && <CheckCircle2 className="w-4 h-4 text-green-600 shrink-0" />}
+            {answered && index === answer && index !== question.correctIndex && <XCircle className="w-4 h-4 text-red-600 shrink-0" />}
+          </button>
+        ))}
+      </div>
+
+      {answered && (
+        <div className="text-sm bg-gray-50 dark:bg-gray-900/40 rounded-lg p-3 space-y-2">
+          <p className="text-gray-700 dark:text-gray-300">{question.explanation}</p>
+          <div className="flex items-center justify-between">
+            {renderChapter(question)}
+            <button
+              onClick={() => {
+                setPosition(position + 1);
+                setAnswer(null);
+              }}
+              className="ml-auto flex items-center text-sm font-medium text-white bg-orange-600 hover:bg-orange-700 px-4 py-1.5 rounded-lg transition-colors"
+            >
+              {position + 1 < order.length ? 'Next' : 'See score'}
+              <ArrowRight className="w-4 h-4 ml-1" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
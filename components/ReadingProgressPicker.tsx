@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { Bookmark } from 'lucide-react';
+import { ParsedBook, StoppingPoint, SummaryResult } from '../types';
+import { createChapterStoppingPoint, createPercentStoppingPoint } from '../services/recapService';
+
+interface ReadingProgressPickerProps {
+  book: ParsedBook;
+  value: StoppingPoint;
+  onChange: (point: StoppingPoint) => void;
+  previous?: SummaryResult; // Earlier recap of this book the new one can continue from
+  continueFromPrevious: boolean;
+  onContinueChange: (value: boolean) => void;
+  disabled: boolean;
+}
+
+// Where the reader stopped, by finished chapter or by percentage of the book
+export const ReadingProgressPicker: React.FC<ReadingProgressPickerProps> = ({
+  book, value, onChange, previous, continueFromPrevious, onContinueChange, disabled,
+}) => {
+  const [byPercent, setByPercent] = useState(false);
+
+  const tabClass = (active: boolean) =>
+    `px-3 py-1 rounded-md transition-colors ${active
+      ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm'
+      : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'}`;
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wider flex items-center">
+          <Bookmark className="w-4 h-4 mr-1.5" />
+          Where did you stop reading?
+        </h4>
+        <div className="flex items-center text-xs font-medium bg-gray-100 dark:bg-gray-900 p-0.5 rounded-lg">
+          <button onClick={() => setByPercent(false)} disabled={disabled} className={tabClass(!byPercent)}>Chapter</button>
+          <button onClick={() => setByPercent(true)} disabled={disabled} className={tabClass(byPercent)}>Percentage</button>
+        </div>
+      </div>
+
+      {byPercent ? (
+        <div className="flex items-center space-x-3">
+          <input
+            type="range"
+            min={1}
+            max={100}
+            value={Math.round(value.percent)}
+            onChange={(e) => onChange(createPercentStoppingPoint(book, Number(e.target.value)))}
+            disabled={disabled}
+            className="flex-1 accent-sky-600"
+            aria-label="Percentage read"
+          />
+          <span className="text-sm font-medium text-gray-700 dark:text-gray-200 w-12 text-right">{Math.round(value.percent)}%</span>
+        </div>
+      ) : (
+        <select
+          value={value.chapterIndex}
+          onChange={(e) => onChange(createChapterStoppingPoint(book, Number(e.target.value)))}
+          disabled={disabled}
+          className="w-full bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-sm text-gray-900 dark:text-white py-2 px-3 rounded-lg outline-none focus:ring-2 focus:ring-sky-500"
+          aria-label="Last chapter read"
+        >
+          {book.chapters.map((chapter, index) => (
+            <option key={`${chapter.href}-${index}`} value={index}>
+              Finished {index + 1}. {chapter.title || `Section ${index + 1}`}
+            </option>
+          ))}
+        </select>
+      )}
+
+      <p className="text-[11px] text-gray-400 mt-1.5 ml-1">
+        Only the text up to the {value.label} is sent, so nothing later can be spoiled.
+      </p>
+
+      {previous?.stoppingPoint && (
+        <label className="flex items-center mt-3 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={continueFromPrevious}
+            onChange={(e) => onContinueChange(e.target.checked)}
+            disabled={disabled}
+            className="mr-2 rounded border-gray-300 text-sky-600 focus:ring-sky-500"
+          />
+          Only what happened since your last recap (up to the {previous.stoppingPoint.label})
+        </label>
+      )}
+    </div>
+  );
+};
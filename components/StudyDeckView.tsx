@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Layers, HelpCircle, BookOpen, X } from 'lucide-react';
+import { StudyDeck, ParsedBook, Flashcard, BookChapter } from '../types';
+import { groupByChapter } from '../services/studyService';
+import { QuizRunner } from './QuizRunner';
+
+interface StudyDeckViewProps {
+  deck: StudyDeck;
+  book?: ParsedBook | null; // When the source book is loaded, cards link to their chapter
+}
+
+const FlashcardItem: React.FC<{ card: Flashcard; chapterLink: React.ReactNode }> = ({ card, chapterLink }) => {
+  const [flipped, setFlipped] = useState(false);
+  return (
+    <div
+      onClick={() => setFlipped(!flipped)}
+      className={`p-4 rounded-xl border cursor-pointer transition-colors min-h-[96px] flex flex-col ${
+        flipped
+          ? 'border-orange-300 dark:border-orange-500/50 bg-orange-50 dark:bg-orange-900/20'
+          : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 hover:border-orange-300 dark:hover:border-orange-500'
+      }`}
+    >
+      <span className="text-[10px] font-bold uppercase tracking-wider text-gray-400 mb-1">{flipped ? 'Answer' : 'Question'}</span>
+      <p className="text-sm text-gray-900 dark:text-gray-100 flex-1">{flipped ? card.answer : card.question}</p>
+      {flipped && <div className="mt-2" onClick={(e) => e.stopPropagation()}>{chapterLink}</div>}
+    </div>
+  );
+};
+
+// Flashcards grouped by chapter (click to flip) and the quiz, in two tabs
+export const StudyDeckView: React.FC<StudyDeckViewProps> = ({ deck, book }) => {
+  const [tab, setTab] = useState<'cards' | 'quiz'>('cards');
+  const [openChapter, setOpenChapter] = useState<BookChapter | null>(null);
+
+  // Link to the source chapter when it is in the loaded book, otherwise just name it
+  const renderChapter = (item: { chapter: string; chapterHref?: string }) => {
+    if (!item.chapter) return null;
+    const chapter = item.chapterHref ? book?.chapters.find(c => c.href === item.chapterHref) : undefined;
+    if (!chapter) {
+      return <span className="text-xs text-gray-400 flex items-center"><BookOpen className="w-3 h-3 mr-1" />{item.chapter}</span>;
+    }
+    return (
+      <button
+        onClick={() => setOpenChapter(chapter)}
+        className="text-xs font-medium text-orange-600 dark:text-orange-400 hover:underline flex items-center"
+        title="Read the source chapter"
+      >
+        <BookOpen className="w-3 h-3 mr-1" />
+        {item.chapter}
+      </button>
+    );
+  };
+
+  const tabClass = (active: boolean) =>
+    `flex items-center px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${active
+      ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm'
+      : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'}`;
+
+  return (
+    <div>
+      {deck.title && <h2 className="text-lg font-bold text-gray-900 dark:text-white mb-3">{deck.title}</h2>}
+      <div className="inline-flex bg-gray-100 dark:bg-gray-900 p-0.5 rounded-lg mb-4">
+        <button onClick={() => setTab('cards')} className={tabClass(tab === 'cards')}>
+          <Layers className="w-4 h-4 mr-1.5" />
+          Flashcards ({deck.flashcards.length})
+        </button>
+        <button onClick={() => setTab('quiz')} className={tabClass(tab === 'quiz')}>
+          <HelpCircle className="w-4 h-4 mr-1.5" />
+          Quiz ({deck.quiz.length})
+        </button>
+      </div>
+
+      {tab === 'cards' ? (
+        <div className="space-y-6">
+          {groupByChapter(deck.flashcards).map(([chapter, cards]) => (
+            <section key={chapter}>
+              {chapter && <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">{chapter}</h3>}
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {cards.map((card, i) => (
+                  <FlashcardItem key={i} card={card} chapterLink={renderChapter(card)} />
+                ))}
+              </div>
+            </section>
+          ))}
+          {deck.flashcards.length === 0 && (
+            <p className="text-sm text-gray-400 text-center py-8">This deck has no flashcards.</p>
+          )}
+        </div>
+      ) : (
+        <QuizRunner questions={deck.quiz} renderChapter={renderChapter} />
+      )}
+
+      {/* Portaled so the scrolling, animated viewer does not clip or offset the overlay */}
+      {openChapter && createPortal(
+        <div className="fixed inset-0 z-40 bg-black/40 flex items-center justify-center p-4" onClick={() => setOpenChapter(null)}>
+          <div
+            className="bg-white dark:bg-gray-800 rounded-xl shadow-xl border border-gray-200 dark:border-gray-700 w-full max-w-2xl max-h-[90vh] flex flex-col"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between px-6 py-4 border-b border-gray-100 dark:border-gray-700">
+              <h3 className="font-bold text-gray-900 dark:text-white truncate">{openChapter.title}</h3>
+              <button
+                onClick={() => setOpenChapter(null)}
+                className="p-1.5 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 rounded-md"
+                title="Close"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-6 overflow-y-auto custom-scrollbar text-sm leading-relaxed whitespace-pre-wrap text-gray-800 dark:text-gray-200">
+              {openChapter.text}
+            </div>
+          </div>
+        </div>,
+        document.body
+      )}
+    </div>
+  );
+};
@@ -1,14 +1,110 @@
 import React from 'react';
-import ReactMarkdown from 'react-markdown';
-import { BookOpen, Copy, Check, Bot, User, FileCode, ListTree, BookCopy } from 'lucide-react';
-import { SummaryResult, SummaryMode } from '../types';
+import ReactMarkdown, { Components, defaultUrlTransform } from 'react-markdown';
+import { BookOpen, Copy, Check, Download, ChevronDown } from 'lucide-react';
+import { SummaryResult, ParsedBook } from '../types';
+import { exportMarkdown, exportHtml, exportEpub, exportJson, printAsPdf } from '../services/exportService';
+import { parseKnowledgeDocument } from '../services/knowledgeService';
+import { parseStudyDeck } from '../services/studyService';
+import { exportAnkiTsv, exportAnkiPackage } from '../services/ankiService';
+import { resolveResultMode } from '../services/modeService';
+import { formatCost, formatTokens } from '../services/costService';
+import { ModeIconView, getBadgeClass } from './modeAppearance';
+import { KnowledgeTree } from './KnowledgeTree';
+import { StudyDeckView } from './StudyDeckView';
 
 interface SummaryViewerProps {
   result: SummaryResult;
+  isStreaming?: boolean;
+  highlight?: string; // Search term to scroll to and highlight (opened from a history search)
+  book?: ParsedBook | null; // Source book, when loaded, for linking study cards to chapters
 }
 
-export const SummaryViewer: React.FC<SummaryViewerProps> = ({ result }) => {
+// Name of the CSS custom highlight used for search matches (styled in index.html)
+const SEARCH_HIGHLIGHT = 'search-match';
+
+const FIGURE_PREFIX = 'figure:';
+
+// Keep figure:<id> image URLs (book figures stored with the result); sanitize everything else
+const transformUrl = (url: string) => url.startsWith(FIGURE_PREFIX) ? url : defaultUrlTransform(url);
+
+export const SummaryViewer: React.FC<SummaryViewerProps> = ({ result, isStreaming = false, highlight = '', book }) => {
   const [copied, setCopied] = React.useState(false);
+  const [exportOpen, setExportOpen] = React.useState(false);
+  const [exportError, setExportError] = React.useState<string | null>(null);
+  const contentRef = React.useRef<HTMLDivElement>(null);
+
+  const mode = resolveResultMode(result);
+  const isStructured = mode.outputFormat === 'json';
+  const isStudy = isStructured && mode.jsonSchema === 'study';
+
+  // Show book figures the output refers to as the original images
+  const markdownComponents = React.useMemo((): Components => {
+    const figures = new Map((result.figures || []).map(figure => [figure.id, figure]));
+    return {
+      img: ({ src, alt }) => {
+        const figure = typeof src === 'string' && src.startsWith(FIGURE_PREFIX) ? figures.get(src.slice(FIGURE_PREFIX.length)) : undefined;
+        if (!figure) return alt ? <em>[{alt}]</em> : null;
+        return (
+          <span className="block my-4 text-center">
+            <img
+              src={`data:${figure.mimeType};base64,${figure.data}`}
+              alt={alt || figure.alt}
+              className="inline-block my-0 max-h-96 rounded-lg border border-gray-200 dark:border-gray-700 bg-white"
+            />
+            {(alt || figure.alt) && <span className="block text-xs text-gray-500 dark:text-gray-400 mt-1">{alt || figure.alt}</span>}
+          </span>
+        );
+      },
+    };
+  }, [result.figures]);
+
+  // Structured results are validated again on display, since history may hold older or edited entries
+  const structured = React.useMemo(() => {
+    if (!isStructured || isStreaming) return null;
+    try {
+      return isStudy
+        ? { knowledge: null, deck: parseStudyDeck(result.text), error: null }
+        : { knowledge: parseKnowledgeDocument(result.text), deck: null, error: null };
+    } catch (err: any) {
+      return { knowledge: null, deck: null, error: err.message as string };
+    }
+  }, [isStructured, isStudy, isStreaming, result.text]);
+
+  // Follow the output as it streams in
+  React.useEffect(() => {
+    if (isStreaming && contentRef.current) {
+      contentRef.current.scrollTop = contentRef.current.scrollHeight;
+    }
+  }, [isStreaming, result.text]);
+
+  // Highlight search matches in the rendered Markdown and scroll to the first one.
+  // Uses the CSS Custom Highlight API so the React-managed DOM is not mutated.
+  React.useEffect(() => {
+    const container = contentRef.current;
+    const needle = highlight.trim().toLowerCase();
+    if (!container || !needle || typeof CSS === 'undefined' || !CSS.highlights) return;
+
+    const ranges: Range[] = [];
+    const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      const text = (node.textContent || '').toLowerCase();
+      for (let index = text.indexOf(needle); index !== -1; index = text.indexOf(needle, index + needle.length)) {
+        const range = document.createRange();
+        range.setStart(node, index);
+        range.setEnd(node, index + needle.length);
+        ranges.push(range);
+      }
+    }
+    if (ranges.length === 0) return;
+
+    CSS.highlights.set(SEARCH_HIGHLIGHT, new Highlight(...ranges));
+    const first = ranges[0].startContainer.parentElement;
+    first?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+    return () => {
+      CSS.highlights.delete(SEARCH_HIGHLIGHT);
+    };
+  }, [highlight, result.id]);
 
   const handleCopy = () => {
     navigator.clipboard.writeText(result.text);
@@ -16,78 +112,143 @@ export const SummaryViewer: React.FC<SummaryViewerProps> = ({ result }) => {
     setTimeout(() => setCopied(false), 2000);
   };
 
-  const getModeIcon = () => {
-    switch (result.mode) {
-      case SummaryMode.HUMAN: return <User className="w-5 h-5" />;
-      case SummaryMode.AI_AGENT: return <Bot className="w-5 h-5" />;
-      case SummaryMode.MARKDOWN: return <FileCode className="w-5 h-5" />;
-      case SummaryMode.TOPIC_ANALYSIS: return <ListTree className="w-5 h-5" />;
-      case SummaryMode.CHAPTER_BY_CHAPTER: return <BookCopy className="w-5 h-5" />;
-      default: return <User className="w-5 h-5" />;
+  const handleExport = async (exporter: (result: SummaryResult) => void | Promise<void>) => {
+    setExportOpen(false);
+    setExportError(null);
+    try {
+      await exporter(result);
+    } catch (err: any) {
+      setExportError(err.message || "Export failed");
     }
   };
 
-  const getModeStyles = () => {
-    switch (result.mode) {
-      case SummaryMode.HUMAN: return 'bg-indigo-100 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-400';
-      case SummaryMode.AI_AGENT: return 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-400';
-      case SummaryMode.MARKDOWN: return 'bg-teal-100 dark:bg-teal-900/30 text-teal-700 dark:text-teal-400';
-      case SummaryMode.TOPIC_ANALYSIS: return 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400';
-      case SummaryMode.CHAPTER_BY_CHAPTER: return 'bg-rose-100 dark:bg-rose-900/30 text-rose-700 dark:text-rose-400';
-      default: return 'bg-indigo-100 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-400';
-    }
-  };
-
-  const getModeLabel = () => {
-    switch (result.mode) {
-      case SummaryMode.HUMAN: return 'Human-Readable Summary';
-      case SummaryMode.AI_AGENT: return 'AI Context Graph';
-      case SummaryMode.MARKDOWN: return 'Markdown Conversion';
-      case SummaryMode.TOPIC_ANALYSIS: return 'Topic Analysis';
-      case SummaryMode.CHAPTER_BY_CHAPTER: return 'Chapter-by-Chapter';
-      default: return 'Summary';
-    }
-  };
+  const exportOptions = [
+    ...(isStudy ? [
+      { label: 'Anki package (.apkg)', action: exportAnkiPackage },
+      { label: 'Anki notes (.txt)', action: exportAnkiTsv },
+    ] : []),
+    ...(isStructured ? [{ label: 'JSON (.json)', action: exportJson }] : []),
+    { label: 'Markdown (.md)', action: exportMarkdown },
+    { label: 'Web Page (.html)', action: exportHtml },
+    { label: 'Ebook (.epub)', action: exportEpub },
+    { label: 'Print / Save as PDF', action: printAsPdf },
+  ];
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden animate-in fade-in duration-500 transition-colors">
       <div className="bg-gray-50 dark:bg-gray-900/50 border-b border-gray-200 dark:border-gray-700 p-4 flex items-center justify-between sticky top-0 z-10 transition-colors">
         <div className="flex items-center space-x-3">
-          <div className={`p-2 rounded-lg ${getModeStyles()}`}>
-            {getModeIcon()}
+          <div className={`p-2 rounded-lg ${getBadgeClass(mode.color)}`}>
+            <ModeIconView icon={mode.icon} />
           </div>
           <div>
-            <h3 className="font-semibold text-gray-900 dark:text-white">
-              {getModeLabel()}
+            <h3 className="font-semibold text-gray-900 dark:text-white flex items-center">
+              {mode.label}
+              {isStreaming && (
+                <span className="ml-2 flex items-center text-[10px] font-bold uppercase tracking-wider text-green-600 dark:text-green-400">
+                  <span className="h-2 w-2 bg-green-500 rounded-full animate-pulse mr-1" />
+                  Live
+                </span>
+              )}
+              {!isStreaming && result.isPartial && (
+                <span className="ml-2 text-[10px] font-bold uppercase tracking-wider text-amber-700 dark:text-amber-400 bg-amber-100 dark:bg-amber-900/30 px-1.5 py-0.5 rounded">
+                  Partial
+                </span>
+              )}
             </h3>
             <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center mt-0.5">
               <BookOpen className="w-3 h-3 mr-1" />
               {result.fileName}
+              {result.chapters && result.totalChapters && result.chapters.length < result.totalChapters && (
+                <span className="ml-1" title={result.chapters.join('\n')}>
+                  · {result.chapters.length} of {result.totalChapters} chapters
+                </span>
+              )}
+              {result.stoppingPoint && (
+                <span className="ml-1">
+                  · {result.stoppingPoint.since ? `from the ${result.stoppingPoint.since.label} ` : ''}up to the {result.stoppingPoint.label}
+                </span>
+              )}
+              {result.usage && (
+                <span className="ml-1" title={`${result.usage.inputTokens.toLocaleString()} input / ${result.usage.outputTokens.toLocaleString()} output tokens`}>
+                  · {formatTokens(result.usage.inputTokens + result.usage.outputTokens)} tokens
+                  {result.usage.costUsd !== undefined && ` · ${formatCost(result.usage.costUsd)}`}
+                </span>
+              )}
             </p>
           </div>
         </div>
-        <button
-          onClick={handleCopy}
-          className="flex items-center px-3 py-1.5 text-sm font-medium text-gray-600 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-all"
-        >
-          {copied ? (
-            <>
-              <Check className="w-4 h-4 mr-1.5 text-green-600 dark:text-green-400" />
-              Copied
-            </>
-          ) : (
-            <>
-              <Copy className="w-4 h-4 mr-1.5" />
-              Copy Text
-            </>
-          )}
-        </button>
+        {!isStreaming && (
+          <div className="flex items-center space-x-2">
+            <div className="relative">
+              <button
+                onClick={() => setExportOpen(!exportOpen)}
+                className="flex items-center px-3 py-1.5 text-sm font-medium text-gray-600 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-all"
+                aria-haspopup="menu"
+                aria-expanded={exportOpen}
+              >
+                <Download className="w-4 h-4 mr-1.5" />
+                Export
+                <ChevronDown className="w-3 h-3 ml-1" />
+              </button>
+              {exportOpen && (
+                <div className="absolute right-0 mt-1 w-48 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg py-1 z-20" role="menu">
+                  {exportOptions.map(option => (
+                    <button
+                      key={option.label}
+                      onClick={() => handleExport(option.action)}
+                      className="w-full text-left px-3 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                      role="menuitem"
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            <button
+              onClick={handleCopy}
+              className="flex items-center px-3 py-1.5 text-sm font-medium text-gray-600 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-all"
+            >
+              {copied ? (
+                <>
+                  <Check className="w-4 h-4 mr-1.5 text-green-600 dark:text-green-400" />
+                  Copied
+                </>
+              ) : (
+                <>
+                  <Copy className="w-4 h-4 mr-1.5" />
+                  Copy Text
+                </>
+              )}
+            </button>
+          </div>
+        )}
       </div>
+
+      {exportError && (
+        <div className="px-4 py-2 text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 border-b border-red-100 dark:border-red-900/30">
+          {exportError}
+        </div>
+      )}
       
-      <div className="p-6 md:p-8 overflow-y-auto max-h-[70vh] bg-white dark:bg-gray-800 transition-colors custom-scrollbar">
-        <article className="prose prose-indigo dark:prose-invert prose-sm md:prose-base max-w-none">
-          <ReactMarkdown>{result.text}</ReactMarkdown>
-        </article>
+      <div ref={contentRef} className="p-6 md:p-8 overflow-y-auto max-h-[70vh] bg-white dark:bg-gray-800 transition-colors custom-scrollbar">
+        {structured?.error && (
+          <div className="mb-4 text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 p-3 rounded-lg">
+            {structured.error} Showing the raw output instead.
+          </div>
+        )}
+        {structured?.knowledge ? (
+          <KnowledgeTree document={structured.knowledge} />
+        ) : structured?.deck ? (
+          <StudyDeckView key={result.id} deck={structured.deck} book={book} />
+        ) : isStructured ? (
+          <pre className="text-xs font-mono whitespace-pre-wrap break-words text-gray-800 dark:text-gray-200">{result.text}</pre>
+        ) : (
+          <article className="prose prose-indigo dark:prose-invert prose-sm md:prose-base max-w-none">
+            <ReactMarkdown components={markdownComponents} urlTransform={transformUrl}>{result.text}</ReactMarkdown>
+          </article>
+        )}
       </div>
     </div>
   );
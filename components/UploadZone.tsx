@@ -1,72 +1,96 @@
 import React, { ChangeEvent, useState } from 'react';
 import { Upload, AlertCircle, FileType } from 'lucide-react';
 import { FileData } from '../types';
+import { findBookParser, ACCEPTED_FILE_TYPES, SUPPORTED_FORMATS } from '../services/bookService';
 
 interface UploadZoneProps {
-  onFileSelected: (data: FileData) => void;
+  onFilesSelected: (data: FileData[]) => void;
   disabled: boolean;
 }
 
-const MAX_FILE_SIZE_MB = 20;
+// Files are parsed in the browser and only the extracted text is sent to the model,
+// so this is bounded by browser memory rather than the API's inline upload limit
+const MAX_FILE_SIZE_MB = 100;
 
-export const UploadZone: React.FC<UploadZoneProps> = ({ onFileSelected, disabled }) => {
+// Helper to check a file before reading it; returns an error message or null
+const validateFile = (file: File): string | null => {
+  if (file.size > MAX_FILE_SIZE_MB * 1024 * 1024) {
+    return `File size exceeds ${MAX_FILE_SIZE_MB}MB limit.`;
+  }
+
+  if (!findBookParser(file.name, file.type)) {
+    return `Please upload a ${SUPPORTED_FORMATS} file.`;
+  }
+  return null;
+};
+
+// Files are not read here: books are parsed when opened or processed, so a dropped
+// folder doesn't hold every file's contents in memory at once
+const toFileData = (file: File): FileData => ({
+  file,
+  // Record the format's standard mime type, since browsers leave it empty or guess for many ebook extensions
+  mimeType: findBookParser(file.name, file.type)?.mimeTypes[0] || file.type,
+});
+
+// Helper to list every file inside a dropped folder, recursively
+const readDirectoryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return new Promise((resolve, reject) => (entry as FileSystemFileEntry).file(file => resolve([file]), reject));
+  }
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries returns results in batches until it yields an empty array
+  while (true) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    entries.push(...batch);
+  }
+  const nested = await Promise.all(entries.map(readDirectoryFiles));
+  return nested.flat();
+};
+
+const getDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (entries.length === 0) return Array.from(dataTransfer.files);
+  const nested = await Promise.all(entries.map(readDirectoryFiles));
+  return nested.flat();
+};
+
+export const UploadZone: React.FC<UploadZoneProps> = ({ onFilesSelected, disabled }) => {
   const [dragActive, setDragActive] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const handleFile = (file: File) => {
+  const handleFiles = async (files: File[]) => {
     setError(null);
     
-    if (file.size > MAX_FILE_SIZE_MB * 1024 * 1024) {
-      setError(`File size exceeds ${MAX_FILE_SIZE_MB}MB limit.`);
-      return;
+    // Single files report why they were rejected; in a batch, unsupported files
+    // (e.g. covers or notes inside a dropped folder) are skipped
+    if (files.length === 1) {
+      const fileError = validateFile(files[0]);
+      if (fileError) {
+        setError(fileError);
+        return;
+      }
     }
-
-    const name = file.name.toLowerCase();
-    
-    // Warn about MOBI
-    if (name.endsWith('.mobi')) {
-      setError("MOBI format is not supported directly. Please convert to EPUB or PDF.");
+    const valid = files.filter(file => !validateFile(file));
+    if (valid.length === 0) {
+      setError(`No supported files found. Please upload ${SUPPORTED_FORMATS} files.`);
       return;
     }
 
-    const validTypes = ['application/pdf', 'text/plain', 'application/epub+zip'];
-    // Check mime type OR extension because some systems don't map .epub correctly
-    const isValidType = validTypes.includes(file.type) || 
-                        name.endsWith('.pdf') || 
-                        name.endsWith('.txt') || 
-                        name.endsWith('.epub');
-    
-    if (!isValidType) {
-       setError("Please upload a PDF, EPUB, or TXT file.");
-       return;
+    onFilesSelected(valid.map(toFileData));
+    if (valid.length < files.length) {
+      setError(`Skipped ${files.length - valid.length} unsupported or oversized file(s).`);
     }
-
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      if (e.target?.result) {
-        const base64 = (e.target.result as string).split(',')[1]; // Remove data url prefix
-        
-        // Detect standard mime type, default to octet-stream if unknown, but logic in App.tsx handles extensions
-        let mimeType = file.type;
-        if (name.endsWith('.pdf')) mimeType = 'application/pdf';
-        if (name.endsWith('.txt')) mimeType = 'text/plain';
-        if (name.endsWith('.epub')) mimeType = 'application/epub+zip';
-
-        onFileSelected({
-          file,
-          base64,
-          mimeType,
-        });
-      }
-    };
-    reader.onerror = () => setError("Failed to read file.");
-    reader.readAsDataURL(file);
   };
 
   const handleChange = (e: ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      handleFile(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+      handleFiles(Array.from(e.target.files));
     }
+    e.target.value = '';
   };
 
   const handleDrag = (e: React.DragEvent) => {
@@ -83,9 +107,9 @@ export const UploadZone: React.FC<UploadZoneProps> = ({ onFileSelected, disabled
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFile(e.dataTransfer.files[0]);
-    }
+    getDroppedFiles(e.dataTransfer)
+      .then(files => files.length > 0 && handleFiles(files))
+      .catch(() => setError("Failed to read the dropped files."));
   };
 
   return (
@@ -105,7 +129,8 @@ export const UploadZone: React.FC<UploadZoneProps> = ({ onFileSelected, disabled
           type="file"
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed z-10"
           onChange={handleChange}
-          accept=".pdf,.txt,.epub"
+          accept={ACCEPTED_FILE_TYPES}
+          multiple
           disabled={disabled}
         />
         
@@ -115,14 +140,14 @@ export const UploadZone: React.FC<UploadZoneProps> = ({ onFileSelected, disabled
           </div>
           <div>
             <p className="text-lg font-semibold text-gray-900 dark:text-white">
-              Drop your Ebook here
+              Drop your Ebooks here
             </p>
             <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-              PDF, EPUB, or TXT supported
+              {SUPPORTED_FORMATS} supported · multiple files or a whole folder
             </p>
             <div className="flex items-center justify-center gap-2 mt-4 text-xs text-gray-400 dark:text-gray-500 bg-gray-50 dark:bg-gray-700/50 py-1 px-3 rounded-full w-fit mx-auto">
               <FileType className="w-3 h-3" />
-              <span>MOBI users: Please convert to EPUB</span>
+              <span>Kindle books must be DRM-free</span>
             </div>
           </div>
         </div>
@@ -0,0 +1,55 @@
+import React from 'react';
+import { User, Bot, FileCode, ListTree, BookCopy, Sparkles, Lightbulb, GraduationCap, Target, MessageSquare, Braces, Bookmark, LucideIcon } from 'lucide-react';
+import { ModeColor, ModeIcon } from '../types';
+
+const ICONS: Record<ModeIcon, LucideIcon> = {
+  'user': User,
+  'bot': Bot,
+  'file-code': FileCode,
+  'list-tree': ListTree,
+  'book-copy': BookCopy,
+  'sparkles': Sparkles,
+  'lightbulb': Lightbulb,
+  'graduation-cap': GraduationCap,
+  'target': Target,
+  'message-square': MessageSquare,
+  'braces': Braces,
+  'bookmark': Bookmark,
+};
+
+export const MODE_ICONS = Object.keys(ICONS) as ModeIcon[];
+
+export const MODE_COLORS: ModeColor[] = ['indigo', 'purple', 'teal', 'amber', 'rose', 'sky', 'emerald', 'orange', 'pink', 'slate'];
+
+export const ModeIconView: React.FC<{ icon: ModeIcon; className?: string }> = ({ icon, className = 'w-5 h-5' }) => {
+  const Icon = ICONS[icon] || Sparkles;
+  return <Icon className={className} />;
+};
+
+// Small colored badge behind a mode icon (viewer header, history cards)
+export const getBadgeClass = (color: ModeColor) =>
+  `bg-${color}-100 dark:bg-${color}-900/30 text-${color}-700 dark:text-${color}-400`;
+
+export const getGradientClass = (color: ModeColor) => {
+  const gradients: Record<ModeColor, string> = {
+    'indigo': 'from-indigo-600 to-violet-600 dark:from-indigo-400 dark:to-violet-400',
+    'purple': 'from-purple-600 to-fuchsia-600 dark:from-purple-400 dark:to-fuchsia-400',
+    'teal': 'from-teal-600 to-emerald-600 dark:from-teal-400 dark:to-emerald-400',
+    'amber': 'from-amber-500 to-orange-600 dark:from-amber-400 dark:to-orange-400',
+    'rose': 'from-rose-500 to-pink-600 dark:from-rose-400 dark:to-pink-400',
+    'sky': 'from-sky-500 to-blue-600 dark:from-sky-400 dark:to-blue-400',
+    'emerald': 'from-emerald-600 to-green-600 dark:from-emerald-400 dark:to-green-400',
+    'orange': 'from-orange-500 to-red-600 dark:from-orange-400 dark:to-red-400',
+    'pink': 'from-pink-500 to-rose-600 dark:from-pink-400 dark:to-rose-400',
+    'slate': 'from-slate-600 to-gray-600 dark:from-slate-300 dark:to-gray-400',
+  };
+  return gradients[color] || gradients['indigo'];
+};
+
+export const getButtonClass = (color: ModeColor) =>
+  `bg-${color}-600 hover:bg-${color}-700 shadow-${color}-200`;
+
+// Mode selection card styles, selected vs idle
+export const getCardClass = (color: ModeColor, selected: boolean) => selected
+  ? `border-${color}-600 bg-${color}-50 dark:bg-${color}-900/30 ring-1 ring-${color}-600`
+  : `border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 hover:border-${color}-300 dark:hover:border-${color}-500 hover:bg-gray-50 dark:hover:bg-gray-750`;
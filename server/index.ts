@@ -0,0 +1,299 @@
+// Must come first: installs the browser APIs the book parsers rely on
+import '../cli/domShim';
+import http, { IncomingMessage, ServerResponse } from 'node:http';
+import { timingSafeEqual } from 'node:crypto';
+import { Readable } from 'node:stream';
+import { AVAILABLE_MODELS, BatchStatus, FileData, SummaryMode, SummaryResult } from '../types';
+import { BUILT_IN_MODES } from '../services/modeService';
+import { findBookParser, SUPPORTED_FORMATS } from '../services/bookService';
+import { summarizeFile } from '../services/summaryService';
+import { getActionableMessage } from '../services/errorService';
+import { buildMarkdown } from '../services/exportService';
+import { getApiKey } from '../services/apiKeyService';
+import { loadEnvironment } from '../cli/env';
+
+// The Gemini key is read here, on the server, and never sent to clients
+loadEnvironment();
+
+const PORT = Number(process.env.PORT) || 8787;
+// Only reachable from this machine unless HOST is set (e.g. 0.0.0.0)
+const HOST = process.env.HOST || '127.0.0.1';
+// When set, clients must send "Authorization: Bearer <token>"
+const API_TOKEN = process.env.EBOOK_LENS_API_TOKEN;
+
+// Same limit as the upload zone
+const MAX_UPLOAD_MB = 100;
+// Books processed at the same time, as in the app's batch queue; the rest wait
+const JOB_CONCURRENCY = 2;
+// Finished jobs are kept in memory for polling; the oldest are dropped beyond this
+const MAX_FINISHED_JOBS = 200;
+
+// One summarization request. Jobs live in memory and are lost when the server restarts.
+interface Job {
+  id: string;
+  status: BatchStatus;
+  progress: string;
+  fileName: string;
+  modeId: string;
+  modelId: string;
+  createdAt: number;
+  finishedAt?: number;
+  error?: string;
+  result?: SummaryResult;
+  fileData?: FileData; // Released once the job finishes
+  controller?: AbortController; // Set while running
+}
+
+// An error answered with its status code and message (anything else is a 500)
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+const jobs = new Map<string, Job>();
+
+// Recaps need the reader's stopping point, which only the app's single-book view asks for
+const API_MODES = BUILT_IN_MODES.filter(mode => !mode.readingProgress);
+
+const isRunning = (status: BatchStatus) => status === 'parsing' || status === 'generating';
+const isFinished = (status: BatchStatus) => status === 'done' || status === 'failed' || status === 'cancelled';
+
+// Job as returned by the API; the result is left out of listings
+const serializeJob = (job: Job, includeResult: boolean) => ({
+  id: job.id,
+  status: job.status,
+  progress: job.progress || undefined,
+  fileName: job.fileName,
+  mode: job.modeId,
+  model: job.modelId,
+  createdAt: new Date(job.createdAt).toISOString(),
+  finishedAt: job.finishedAt ? new Date(job.finishedAt).toISOString() : undefined,
+  error: job.error,
+  usage: job.result?.usage,
+  result: includeResult ? job.result : undefined,
+  url: `/summaries/${job.id}`,
+});
+
+// Helper to drop the oldest finished jobs beyond MAX_FINISHED_JOBS
+const pruneJobs = () => {
+  const finished = Array.from(jobs.values()).filter(job => isFinished(job.status));
+  finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS)).forEach(job => jobs.delete(job.id));
+};
+
+const runJob = async (job: Job) => {
+  const controller = new AbortController();
+  job.controller = controller;
+  job.status = 'parsing';
+  try {
+    const mode = API_MODES.find(m => m.id === job.modeId);
+    if (!mode || !job.fileData) throw new Error("The job is missing its mode or file.");
+    job.result = await summarizeFile(
+      job.fileData,
+      mode,
+      job.modelId,
+      (status) => job.status = status,
+      { signal: controller.signal, onProgress: (progress) => job.progress = progress }
+    );
+    job.status = 'done';
+  } catch (err: any) {
+    job.status = controller.signal.aborted ? 'cancelled' : 'failed';
+    if (job.status === 'failed') {
+      job.error = getActionableMessage(err);
+      console.error(`Job ${job.id} (${job.fileName}) failed:`, err);
+    }
+  } finally {
+    job.progress = '';
+    job.finishedAt = Date.now();
+    job.fileData = undefined;
+    job.controller = undefined;
+    pruneJobs();
+    startQueuedJobs();
+  }
+};
+
+// Start queued jobs whenever a slot is free
+const startQueuedJobs = () => {
+  const all = Array.from(jobs.values());
+  const running = all.filter(job => isRunning(job.status)).length;
+  all
+    .filter(job => job.status === 'queued')
+    .slice(0, Math.max(0, JOB_CONCURRENCY - running))
+    .forEach(runJob);
+};
+
+// Helper to read a multipart/form-data body with the Fetch API's parser
+const readForm = async (req: IncomingMessage): Promise<FormData> => {
+  if (!req.headers['content-type']?.startsWith('multipart/form-data')) {
+    throw new HttpError(415, "Send the book as multipart/form-data with a \"file\" field.");
+  }
+  const limit = MAX_UPLOAD_MB * 1024 * 1024;
+  const tooLarge = () => new HttpError(413, `File size exceeds ${MAX_UPLOAD_MB}MB limit.`);
+  if (Number(req.headers['content-length']) > limit) throw tooLarge();
+
+  // Content-Length is missing from chunked uploads, so bytes are also counted as they arrive
+  let received = 0;
+  let exceeded = false;
+  const body = (Readable.toWeb(req) as ReadableStream<Uint8Array>).pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      received += chunk.byteLength;
+      if (received > limit) {
+        exceeded = true;
+        controller.error(tooLarge());
+      } else {
+        controller.enqueue(chunk);
+      }
+    },
+  }));
+
+  const headers = new Headers();
+  Object.entries(req.headers).forEach(([name, value]) => {
+    if (typeof value === 'string') headers.set(name, value);
+  });
+  const request = new Request(`http://${HOST}${req.url}`, {
+    method: req.method,
+    headers,
+    body,
+    duplex: 'half', // Required by Node for streamed request bodies
+  } as RequestInit);
+  return request.formData().catch(() => {
+    throw exceeded ? tooLarge() : new HttpError(400, "The multipart body could not be read.");
+  });
+};
+
+const createJob = async (req: IncomingMessage): Promise<Job> => {
+  const form = await readForm(req);
+  const file = form.get('file');
+  if (!(file instanceof File)) throw new HttpError(400, "Missing \"file\" field.");
+  if (file.size > MAX_UPLOAD_MB * 1024 * 1024) throw new HttpError(413, `File size exceeds ${MAX_UPLOAD_MB}MB limit.`);
+
+  const parser = findBookParser(file.name, file.type);
+  if (!parser) throw new HttpError(415, `Please upload a ${SUPPORTED_FORMATS} file.`);
+
+  const modeId = String(form.get('mode') || SummaryMode.HUMAN).toUpperCase();
+  if (!API_MODES.some(m => m.id === modeId)) {
+    throw new HttpError(400, `Unknown mode "${modeId}". Available: ${API_MODES.map(m => m.id).join(', ')}`);
+  }
+  const modelId = String(form.get('model') || AVAILABLE_MODELS[0].id);
+  if (!AVAILABLE_MODELS.some(m => m.id === modelId)) {
+    throw new HttpError(400, `Unknown model "${modelId}". Available: ${AVAILABLE_MODELS.map(m => m.id).join(', ')}`);
+  }
+
+  const mimeType = parser.mimeTypes[0];
+  return {
+    id: crypto.randomUUID(),
+    status: 'queued',
+    progress: '',
+    fileName: file.name,
+    modeId,
+    modelId,
+    createdAt: Date.now(),
+    fileData: { file: new File([file], file.name, { type: mimeType }), mimeType },
+  };
+};
+
+const sendJson = (res: ServerResponse, status: number, body?: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { ...(body !== undefined && { 'Content-Type': 'application/json; charset=utf-8' }), ...headers });
+  res.end(body !== undefined ? JSON.stringify(body, null, 2) : undefined);
+};
+
+// Helper to check the Authorization header in constant time, so response timing doesn't reveal the token
+const isAuthorized = (header: string | undefined): boolean => {
+  if (!API_TOKEN) return true;
+  const received = Buffer.from(header || '');
+  const expected = Buffer.from(`Bearer ${API_TOKEN}`);
+  return received.length === expected.length && timingSafeEqual(received, expected);
+};
+
+const getJob = (id: string): Job => {
+  const job = jobs.get(id);
+  if (!job) throw new HttpError(404, `No summary job with id ${id}.`);
+  return job;
+};
+
+// Routes:
+//   GET    /                   Supported formats, modes and models
+//   POST   /summaries          Queue a book (multipart: file, mode?, model?); 202 with the job
+//   GET    /summaries          All jobs, newest first, without their results
+//   GET    /summaries/:id      One job; poll until status is done, failed or cancelled.
+//                              ?format=md returns a finished summary as Markdown
+//   DELETE /summaries/:id      Cancel a queued or running job, or remove a finished one
+const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+  if (!isAuthorized(req.headers.authorization)) {
+    throw new HttpError(401, "Missing or invalid API token.");
+  }
+
+  const url = new URL(req.url || '/', `http://${HOST}`);
+  const [resource, id, ...rest] = url.pathname.split('/').filter(Boolean);
+
+  if (!resource && req.method === 'GET') {
+    return sendJson(res, 200, {
+      formats: SUPPORTED_FORMATS,
+      modes: API_MODES.map(mode => ({ id: mode.id, name: mode.name, description: mode.description, outputFormat: mode.outputFormat || 'markdown' })),
+      models: AVAILABLE_MODELS.map(model => ({ id: model.id, name: model.name, contextWindow: model.contextWindow })),
+    });
+  }
+  if (resource !== 'summaries' || rest.length > 0) throw new HttpError(404, "Not found.");
+
+  if (!id && req.method === 'POST') {
+    const job = await createJob(req);
+    jobs.set(job.id, job);
+    startQueuedJobs();
+    return sendJson(res, 202, serializeJob(job, false), { Location: `/summaries/${job.id}` });
+  }
+  if (!id && req.method === 'GET') {
+    const list = Array.from(jobs.values()).sort((a, b) => b.createdAt - a.createdAt);
+    return sendJson(res, 200, list.map(job => serializeJob(job, false)));
+  }
+  if (id && req.method === 'GET') {
+    const job = getJob(id);
+    if (url.searchParams.get('format') === 'md') {
+      if (!job.result) throw new HttpError(409, `The job is ${job.status}; the summary is not available.`);
+      res.writeHead(200, { 'Content-Type': 'text/markdown; charset=utf-8' });
+      return res.end(buildMarkdown(job.result));
+    }
+    return sendJson(res, 200, serializeJob(job, true));
+  }
+  if (id && req.method === 'DELETE') {
+    const job = getJob(id);
+    if (job.controller) {
+      job.controller.abort();
+      return sendJson(res, 202, serializeJob(job, false));
+    }
+    if (job.status === 'queued') {
+      job.status = 'cancelled';
+      job.finishedAt = Date.now();
+      job.fileData = undefined;
+      return sendJson(res, 200, serializeJob(job, false));
+    }
+    jobs.delete(id);
+    return sendJson(res, 204);
+  }
+
+  throw new HttpError(405, `${req.method} is not supported here.`);
+};
+
+const server = http.createServer((req, res) => {
+  handleRequest(req, res).catch((err: any) => {
+    const status = err instanceof HttpError ? err.status : 500;
+    if (status === 500) console.error(`${req.method} ${req.url} failed:`, err);
+    if (!res.headersSent) sendJson(res, status, { error: err.message || "Internal server error" });
+    else res.end();
+  });
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`Ebook Lens API listening on http://${HOST}:${PORT}`);
+  if (!getApiKey()) console.log("Warning: GEMINI_API_KEY is not set; Gemini jobs will fail.");
+});
+
+// Ctrl+C cancels running jobs and stops accepting requests
+process.once('SIGINT', () => {
+  jobs.forEach(job => job.controller?.abort());
+  server.close();
+  server.closeAllConnections();
+});
@@ -0,0 +1,190 @@
+import JSZip from 'jszip';
+import type { Database, SqlJsStatic } from 'sql.js';
+import { SummaryResult, StudyDeck } from '../types';
+import { parseStudyDeck } from './studyService';
+import { triggerDownload } from './exportService';
+
+interface AnkiNote {
+  guid: string; // Stable per result and card, so re-importing updates notes instead of duplicating them
+  front: string;
+  back: string;
+  tags: string[];
+}
+
+const OPTION_LETTERS = 'ABCDEFGHIJ';
+
+const getDeckName = (result: SummaryResult, deck: StudyDeck) =>
+  deck.title || result.fileName.replace(/\.[^.]+$/, '');
+
+const getBaseFileName = (result: SummaryResult) =>
+  `${result.fileName.replace(/\.[^.]+$/, '')}-study`.replace(/[^\w.-]+/g, '_');
+
+// Anki fields are HTML; tabs and newlines would break the TSV row
+const toField = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\t/g, ' ')
+    .replace(/\r?\n/g, '<br>');
+
+// Anki tags cannot contain spaces; "::" nests the chapter tags under one parent
+const toChapterTag = (chapter: string) =>
+  chapter ? `chapter::${chapter.trim().replace(/\s+/g, '_').replace(/[^\p{L}\p{N}_:-]/gu, '')}` : '';
+
+const withSource = (back: string, chapter: string) =>
+  chapter ? `${back}<br><br><small>Chapter: ${toField(chapter)}</small>` : back;
+
+// Flashcards become basic front/back notes; quiz questions list their options on the front
+const buildNotes = (result: SummaryResult, deck: StudyDeck): AnkiNote[] => [
+  ...deck.flashcards.map((card, i): AnkiNote => ({
+    guid: `${result.id}-card-${i}`,
+    front: toField(card.question),
+    back: withSource(toField(card.answer), card.chapter),
+    tags: ['flashcard', toChapterTag(card.chapter)].filter(Boolean),
+  })),
+  ...deck.quiz.map((question, i): AnkiNote => {
+    const options = question.options.map((option, j) => `${OPTION_LETTERS[j]}. ${toField(option)}`);
+    return {
+      guid: `${result.id}-quiz-${i}`,
+      front: `${toField(question.question)}<br><br>${options.join('<br>')}`,
+      back: withSource(`<b>${options[question.correctIndex]}</b><br><br>${toField(question.explanation)}`, question.chapter),
+      tags: ['quiz', toChapterTag(question.chapter)].filter(Boolean),
+    };
+  }),
+];
+
+// Tab-separated notes with the file headers Anki's importer (2.1.55+) reads,
+// so the note type, deck and tag column are preselected
+const buildTsv = (deckName: string, notes: AnkiNote[]): string => [
+  '#separator:tab',
+  '#html:true',
+  '#notetype:Basic',
+  `#deck:${deckName.replace(/[\t\r\n]/g, ' ')}`,
+  '#guid column:1',
+  '#tags column:4',
+  ...notes.map(note => [note.guid, note.front, note.back, note.tags.join(' ')].join('\t')),
+].join('\n');
+
+export const exportAnkiTsv = (result: SummaryResult) => {
+  const deck = parseStudyDeck(result.text);
+  triggerDownload(
+    buildTsv(getDeckName(result, deck), buildNotes(result, deck)),
+    `${getBaseFileName(result)}.txt`,
+    'text/tab-separated-values;charset=utf-8'
+  );
+};
+
+// The note type used in .apkg exports. Its id is fixed so every export shares one note type
+// in Anki, and notes keep their guid, so re-importing a deck updates it.
+const MODEL_ID = 1_718_900_000_000;
+const FIELD_SEPARATOR = '\x1f';
+
+// Anki's legacy collection schema (version 11), which every Anki version imports
+const COLLECTION_SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+// Helper to load sql.js and its WebAssembly (bundled with the app) on first use
+const loadSqlJs = async (): Promise<SqlJsStatic> => {
+  const [{ default: initSqlJs }, { default: wasmUrl }] = await Promise.all([
+    import('sql.js'),
+    import('sql.js/dist/sql-wasm-browser.wasm?url'),
+  ]);
+  return initSqlJs({ locateFile: () => wasmUrl });
+};
+
+// Anki strips HTML from the first field for sorting and duplicate checks
+const stripHtml = (html: string) =>
+  html.replace(/<br>/g, ' ').replace(/<[^>]+>/g, '').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+
+// Anki's note checksum: the first 8 hex digits of the SHA-1 of the stripped first field
+const getChecksum = async (field: string): Promise<number> => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(field));
+  return new DataView(digest).getUint32(0);
+};
+
+const buildDeckConfig = (id: number, name: string, mod: number) => ({
+  id, name, desc: '', mod, usn: -1, dyn: 0, conf: 1, collapsed: false, browserCollapsed: false,
+  extendNew: 0, extendRev: 0, newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0],
+});
+
+// Helper to fill the collection's single "col" row: settings, the note type and the decks
+const insertCollectionRow = (db: Database, deckId: number, deckName: string, mod: number) => {
+  const model = {
+    id: MODEL_ID, name: 'Ebook Lens Basic', type: 0, mod, usn: -1, sortf: 0, did: deckId, tags: [], vers: [],
+    flds: ['Front', 'Back'].map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+    tmpls: [{ name: 'Card 1', ord: 0, qfmt: '{{Front}}', afmt: '{{FrontSide}}<hr id=answer>{{Back}}', did: null, bqfmt: '', bafmt: '' }],
+    css: '.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }',
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    req: [[0, 'all', [0]]],
+  };
+  const conf = {
+    activeDecks: [1], curDeck: 1, newSpread: 0, collapseTime: 1200, timeLim: 0, estTimes: true, dueCounts: true,
+    curModel: String(MODEL_ID), nextPos: 1, sortType: 'noteFld', sortBackwards: false, addToCur: true,
+  };
+  const deckOptions = {
+    id: 1, name: 'Default', mod: 0, usn: 0, dyn: false, maxTaken: 60, timer: 0, autoplay: true, replayq: true,
+    new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: true, separate: true },
+    rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, maxIvl: 36500, bury: true, minSpace: 1, ivlFct: 1 },
+    lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+  };
+  db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+    Math.floor(mod / 86400) * 86400, mod * 1000, mod * 1000,
+    JSON.stringify(conf),
+    JSON.stringify({ [MODEL_ID]: model }),
+    JSON.stringify({ 1: buildDeckConfig(1, 'Default', mod), [deckId]: buildDeckConfig(deckId, deckName, mod) }),
+    JSON.stringify({ 1: deckOptions }),
+    '{}',
+  ]);
+};
+
+// Helper to build the collection.anki2 database: one card per note, all new, in note order
+const buildCollection = async (SQL: SqlJsStatic, deckName: string, notes: AnkiNote[]): Promise<Uint8Array> => {
+  const now = Date.now();
+  const mod = Math.floor(now / 1000);
+  const deckId = now;
+  const db = new SQL.Database();
+  try {
+    db.exec(COLLECTION_SCHEMA);
+    insertCollectionRow(db, deckId, deckName, mod);
+    for (const [i, note] of notes.entries()) {
+      // Note and card ids are creation times in milliseconds; consecutive values keep them unique
+      const id = now + i;
+      const sortField = stripHtml(note.front);
+      db.run('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')', [
+        id, note.guid, MODEL_ID, mod, note.tags.length > 0 ? ` ${note.tags.join(' ')} ` : '',
+        [note.front, note.back].join(FIELD_SEPARATOR), sortField, await getChecksum(sortField),
+      ]);
+      db.run('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')', [id, id, deckId, mod, i + 1]);
+    }
+    return db.export();
+  } finally {
+    db.close();
+  }
+};
+
+// An .apkg: a zip of the SQLite collection and a "media" map (empty, since the cards are text only)
+export const exportAnkiPackage = async (result: SummaryResult) => {
+  const deck = parseStudyDeck(result.text);
+  const deckName = getDeckName(result, deck);
+
+  const zip = new JSZip();
+  zip.file('collection.anki2', await buildCollection(await loadSqlJs(), deckName, buildNotes(result, deck)));
+  zip.file('media', '{}');
+
+  const blob = await zip.generateAsync({ type: 'blob', mimeType: 'application/apkg' });
+  triggerDownload(blob, `${getBaseFileName(result)}.apkg`, 'application/apkg');
+};
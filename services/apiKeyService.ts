@@ -0,0 +1,121 @@
+import { ProviderId } from '../types';
+
+// Each provider's key is stored separately; the Gemini one keeps its original name
+const STORAGE_KEYS: Record<ProviderId, string> = {
+  [ProviderId.GEMINI]: 'gemini_ebook_lens_api_key',
+  [ProviderId.OPENAI_COMPATIBLE]: 'gemini_ebook_lens_local_api_key',
+};
+
+// Where the CLI and API server read each key instead, in order of preference.
+// API_KEY is the variable older setups used for the Gemini key.
+const ENV_VARIABLES: Record<ProviderId, string[]> = {
+  [ProviderId.GEMINI]: ['GEMINI_API_KEY', 'API_KEY'],
+  [ProviderId.OPENAI_COMPATIBLE]: ['LOCAL_LLM_API_KEY'],
+};
+
+// PBKDF2 iterations for deriving the encryption key from the passphrase (OWASP's SHA-256 figure)
+const PBKDF2_ITERATIONS = 600_000;
+
+// The key as saved in localStorage: in plain text, or encrypted with AES-GCM under a
+// key derived from the user's passphrase. Binary fields are base64.
+interface StoredApiKey {
+  key?: string;
+  encrypted?: { ciphertext: string; iv: string; salt: string };
+}
+
+// 'locked' means an encrypted key is stored but the passphrase hasn't been entered yet
+export type ApiKeyStatus = 'missing' | 'locked' | 'ready';
+
+// Decrypted keys for this page load; the passphrase itself is never kept
+const unlockedKeys: Partial<Record<ProviderId, string>> = {};
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (base64: string): Uint8Array => Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+const readStored = (provider: ProviderId): StoredApiKey | null => {
+  // Outside the browser (CLI, API server) there is no store
+  if (typeof localStorage === 'undefined') return null;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS[provider]);
+    return stored ? JSON.parse(stored) : null;
+  } catch (e) {
+    console.error("Failed to load the API key", e);
+    return null;
+  }
+};
+
+// Helper to derive an AES-GCM key from a passphrase
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// A provider's API key: the one entered in the app, or in Node (CLI, API server) its
+// environment variable (see ENV_VARIABLES)
+export const getApiKey = (provider = ProviderId.GEMINI): string | undefined => {
+  const key = unlockedKeys[provider] || readStored(provider)?.key;
+  if (key) return key;
+  if (typeof process === 'undefined') return undefined;
+  return ENV_VARIABLES[provider].map(name => process.env[name]).find(Boolean);
+};
+
+export const getApiKeyStatus = (provider = ProviderId.GEMINI): ApiKeyStatus => {
+  if (getApiKey(provider)) return 'ready';
+  return readStored(provider)?.encrypted ? 'locked' : 'missing';
+};
+
+export const isApiKeyEncrypted = (provider = ProviderId.GEMINI): boolean => !!readStored(provider)?.encrypted;
+
+// Save the key for this browser. With a passphrase, only the encrypted key is stored
+// and the passphrase has to be entered again after each reload.
+export const saveApiKey = async (key: string, passphrase?: string, provider = ProviderId.GEMINI): Promise<void> => {
+  const trimmed = key.trim();
+  if (!trimmed) throw new Error("Enter an API key.");
+
+  let stored: StoredApiKey = { key: trimmed };
+  if (passphrase) {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      await deriveKey(passphrase, salt),
+      new TextEncoder().encode(trimmed)
+    );
+    stored = { encrypted: { ciphertext: toBase64(new Uint8Array(ciphertext)), iv: toBase64(iv), salt: toBase64(salt) } };
+  }
+  localStorage.setItem(STORAGE_KEYS[provider], JSON.stringify(stored));
+  unlockedKeys[provider] = trimmed;
+};
+
+// Decrypt the stored key for this page load
+export const unlockApiKey = async (passphrase: string, provider = ProviderId.GEMINI): Promise<void> => {
+  const encrypted = readStored(provider)?.encrypted;
+  if (!encrypted) throw new Error("No encrypted API key is stored.");
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(encrypted.iv) },
+      await deriveKey(passphrase, fromBase64(encrypted.salt)),
+      fromBase64(encrypted.ciphertext)
+    );
+    unlockedKeys[provider] = new TextDecoder().decode(plaintext);
+  } catch {
+    // AES-GCM fails authentication when the derived key is wrong
+    throw new Error("Wrong passphrase.");
+  }
+};
+
+// Forget the decrypted key until the passphrase is entered again
+export const lockApiKey = (provider = ProviderId.GEMINI) => {
+  delete unlockedKeys[provider];
+};
+
+export const removeApiKey = (provider = ProviderId.GEMINI) => {
+  localStorage.removeItem(STORAGE_KEYS[provider]);
+  delete unlockedKeys[provider];
+};
@@ -0,0 +1,44 @@
+import JSZip from 'jszip';
+
+export type EntryFormat = 'text' | 'base64';
+
+// Read access to the files inside a zip-based book (EPUB).
+// `read` resolves with null for missing entries.
+export interface BookArchive {
+  read: (path: string, format: EntryFormat) => Promise<string | null>;
+}
+
+// Helper to find a zip entry. EPUBs are inconsistent about URL encoding in their
+// references, so the path is tried as written, decoded and encoded.
+const findEntry = (zip: JSZip, path: string): JSZip.JSZipObject | null => {
+  let decoded = path;
+  try {
+    decoded = decodeURIComponent(path);
+  } catch {
+    // Not valid percent-encoding; use the path as written
+  }
+  return zip.file(path) || zip.file(decoded) || zip.file(encodeURI(decoded));
+};
+
+const readZipEntry = async (zip: JSZip, path: string, format: EntryFormat): Promise<string | null> => {
+  const entry = findEntry(zip, path);
+  return entry ? entry.async(format) : null;
+};
+
+// Helper to base64-encode bytes. Encoded in slices, since spreading a large array
+// into String.fromCharCode overflows the stack.
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  const SLICE = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += SLICE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + SLICE));
+  }
+  return btoa(binary);
+};
+
+export const openArchive = async (buffer: ArrayBuffer): Promise<BookArchive> => {
+  const zip = await JSZip.loadAsync(buffer);
+  return {
+    read: (path, format) => readZipEntry(zip, path, format),
+  };
+};
@@ -0,0 +1,77 @@
+import { ParsedBook } from '../types';
+import { parseEpub } from './bookWorkerClient';
+import { parsePdf } from './pdfService';
+import { parseMobi } from './mobiService';
+import { parseFb2 } from './fb2Service';
+import { parseHtml } from './htmlService';
+import { parseDocx } from './docxService';
+import { parseMarkdown } from './markdownService';
+
+// A supported upload format. Upload validation and parsing both go through this registry.
+export interface BookParser {
+  name: string; // Shown in upload hints and errors
+  extensions: string[]; // Lowercase, including the dot
+  mimeTypes: string[]; // The first one is recorded for uploaded files
+  parse: (file: File, onProgress?: (progress: string) => void, signal?: AbortSignal) => Promise<ParsedBook | null>;
+}
+
+const parseText = async (file: File): Promise<ParsedBook> => {
+  const text = (await file.text()).trim();
+  if (!text) throw new Error("The text file is empty.");
+  return {
+    title: file.name.replace(/\.txt$/i, ''),
+    author: '',
+    language: '',
+    chapters: [{ title: '', href: '', text }],
+  };
+};
+
+export const BOOK_PARSERS: BookParser[] = [
+  { name: 'PDF', extensions: ['.pdf'], mimeTypes: ['application/pdf'], parse: parsePdf },
+  { name: 'EPUB', extensions: ['.epub'], mimeTypes: ['application/epub+zip'], parse: parseEpub },
+  {
+    name: 'MOBI/AZW3',
+    extensions: ['.mobi', '.azw3', '.azw'],
+    mimeTypes: ['application/x-mobipocket-ebook', 'application/vnd.amazon.ebook'],
+    parse: parseMobi,
+  },
+  { name: 'FB2', extensions: ['.fb2'], mimeTypes: ['application/x-fictionbook+xml'], parse: parseFb2 },
+  {
+    name: 'DOCX',
+    extensions: ['.docx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    parse: parseDocx,
+  },
+  { name: 'HTML', extensions: ['.html', '.htm', '.xhtml'], mimeTypes: ['text/html', 'application/xhtml+xml'], parse: parseHtml },
+  { name: 'Markdown', extensions: ['.md', '.markdown'], mimeTypes: ['text/markdown', 'text/x-markdown'], parse: parseMarkdown },
+  { name: 'TXT', extensions: ['.txt'], mimeTypes: ['text/plain'], parse: parseText },
+];
+
+// For the file input's `accept` attribute
+export const ACCEPTED_FILE_TYPES = BOOK_PARSERS.flatMap(parser => parser.extensions).join(',');
+
+// e.g. "PDF, EPUB, ... or TXT", for upload hints and errors
+export const SUPPORTED_FORMATS = `${BOOK_PARSERS.slice(0, -1).map(parser => parser.name).join(', ')}, or ${BOOK_PARSERS[BOOK_PARSERS.length - 1].name}`;
+
+// The extension is checked first, since some systems don't map types like .epub or .md correctly
+export const findBookParser = (fileName: string, mimeType: string): BookParser | undefined => {
+  const name = fileName.toLowerCase();
+  return BOOK_PARSERS.find(parser => parser.extensions.some(ext => name.endsWith(ext)))
+    || BOOK_PARSERS.find(parser => parser.mimeTypes.includes(mimeType));
+};
+
+// Parse any supported upload into the shared chapter model.
+// Returns null when there is no extractable text (scanned PDFs) and the file
+// has to be sent to the model as-is. Parsers that support it stop when `signal` aborts.
+export const parseBook = async (
+  file: File,
+  mimeType: string,
+  onProgress?: (progress: string) => void,
+  signal?: AbortSignal
+): Promise<ParsedBook | null> => {
+  const parser = findBookParser(file.name, mimeType);
+  if (!parser) return null;
+
+  onProgress?.(`Parsing ${parser.name} content...`);
+  return parser.parse(file, onProgress, signal);
+};
@@ -0,0 +1,43 @@
+import { ParsedBook } from '../types';
+import { bytesToBase64 } from './archiveService';
+import { readEpub } from './epubService';
+
+// Runs the CPU-heavy parts of reading a book off the main thread: base64-encoding uploads,
+// and reading EPUBs (unzipping, parsing each spine item and extracting its text). Only
+// progress messages and the finished chapters are sent back.
+
+export type BookWorkerRequest =
+  | { id: number; type: 'encode'; buffer: ArrayBuffer }
+  | { id: number; type: 'readEpub'; buffer: ArrayBuffer; fileName: string };
+
+// Any progress messages for a request come before its result or error
+export interface BookWorkerResponse {
+  id: number;
+  progress?: string;
+  result?: string | ParsedBook;
+  error?: string;
+}
+
+const handleRequest = async (request: BookWorkerRequest, onProgress: (progress: string) => void): Promise<string | ParsedBook> => {
+  switch (request.type) {
+    case 'encode':
+      return bytesToBase64(new Uint8Array(request.buffer));
+    case 'readEpub':
+      return readEpub(request.buffer, request.fileName, onProgress);
+  }
+};
+
+self.onmessage = async (e: MessageEvent<BookWorkerRequest>) => {
+  const { id } = e.data;
+  const onProgress = (progress: string) => {
+    const response: BookWorkerResponse = { id, progress };
+    self.postMessage(response);
+  };
+  try {
+    const response: BookWorkerResponse = { id, result: await handleRequest(e.data, onProgress) };
+    self.postMessage(response);
+  } catch (err: any) {
+    const response: BookWorkerResponse = { id, error: err?.message || String(err) };
+    self.postMessage(response);
+  }
+};
@@ -0,0 +1,107 @@
+import { ParsedBook } from '../types';
+import type { BookWorkerRequest, BookWorkerResponse } from './bookWorker';
+import { bytesToBase64 } from './archiveService';
+import { readEpub } from './epubService';
+
+// A request without its id. Omit is applied to each member of the union so they keep their own fields.
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+type RequestBody = WithoutId<BookWorkerRequest>;
+
+interface WorkerConnection {
+  request: <T>(body: RequestBody, transfer?: Transferable[], onProgress?: (progress: string) => void) => Promise<T>;
+  close: () => void;
+}
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: string) => void;
+}
+
+// Browsers run the work in a module worker; Node (CLI, API server) has no Web Workers
+const canUseWorker = () => typeof Worker !== 'undefined';
+
+// Helper to start a worker and match its responses to requests by id.
+// Aborting the signal terminates the worker and rejects the pending requests.
+const connect = (signal?: AbortSignal): WorkerConnection => {
+  const worker = new Worker(new URL('./bookWorker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, PendingRequest>();
+  let nextId = 0;
+  let closedWith: Error | null = null;
+
+  const close = (error = new Error("The book worker was closed.")) => {
+    if (closedWith) return;
+    closedWith = error;
+    signal?.removeEventListener('abort', onAbort);
+    worker.terminate();
+    pending.forEach(({ reject }) => reject(error));
+    pending.clear();
+  };
+  const onAbort = () => close(new Error("Cancelled"));
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  worker.onmessage = (e: MessageEvent<BookWorkerResponse>) => {
+    const { id, progress, result, error } = e.data;
+    const request = pending.get(id);
+    if (!request) return;
+    if (progress !== undefined) {
+      request.onProgress?.(progress);
+      return;
+    }
+    pending.delete(id);
+    if (error !== undefined) request.reject(new Error(error));
+    else request.resolve(result);
+  };
+  worker.onerror = (e) => {
+    console.error("Book worker error:", e);
+    close(new Error(e.message || "The book worker stopped unexpectedly."));
+  };
+
+  const request = <T>(body: RequestBody, transfer: Transferable[] = [], onProgress?: (progress: string) => void) => new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) onAbort();
+    if (closedWith) return reject(closedWith);
+    const id = nextId++;
+    pending.set(id, { resolve, reject, onProgress });
+    worker.postMessage({ ...body, id }, transfer);
+  });
+
+  return { request, close: () => close() };
+};
+
+// Uploads are encoded by one shared worker, one after another, rather than a worker per file
+let encodeConnection: WorkerConnection | null = null;
+
+// Base64-encode a file off the main thread. The file's bytes are transferred to the worker, not copied.
+export const encodeBase64 = async (file: File): Promise<string> => {
+  const buffer = await file.arrayBuffer();
+  if (!canUseWorker()) return bytesToBase64(new Uint8Array(buffer));
+
+  encodeConnection ||= connect();
+  const connection = encodeConnection;
+  try {
+    return await connection.request<string>({ type: 'encode', buffer }, [buffer]);
+  } catch (err) {
+    // Start a fresh worker next time in case this one stopped
+    connection.close();
+    if (encodeConnection === connection) encodeConnection = null;
+    throw err;
+  }
+};
+
+// Read an EPUB in a worker of its own, which ends when the book is read or `signal` aborts.
+// The main thread only receives progress and the finished chapters.
+export const parseEpub = async (
+  file: File,
+  onProgress?: (progress: string) => void,
+  signal?: AbortSignal
+): Promise<ParsedBook> => {
+  const buffer = await file.arrayBuffer();
+  if (!canUseWorker()) return readEpub(buffer, file.name, onProgress, signal);
+
+  const connection = connect(signal);
+  try {
+    return await connection.request<ParsedBook>({ type: 'readEpub', buffer, fileName: file.name }, [buffer], onProgress);
+  } finally {
+    connection.close();
+  }
+};
@@ -0,0 +1,47 @@
+import { BookChapter } from '../types';
+
+// A paragraph-level piece of a document, as produced by the HTML, DOCX and Markdown parsers.
+// `text` is what goes into the chapter text; headings also carry their level (1 = top).
+export interface TextBlock {
+  text: string;
+  heading?: { level: number; title: string; id?: string };
+}
+
+// Helper to pick the heading level that divides a document into chapters: the highest
+// level used more than once, since a lone top-level heading is usually the book title
+const pickChapterLevel = (blocks: TextBlock[]): number => {
+  for (let level = 1; level <= 6; level++) {
+    if (blocks.filter(block => block.heading?.level === level).length > 1) return level;
+  }
+  return 0;
+};
+
+// Split a document into chapters at its chapter-level headings.
+// Text before the first heading becomes a "Front Matter" chapter (as in the PDF parser) and
+// a document without repeated headings stays one untitled chapter, like a plain text file.
+export const groupIntoChapters = (blocks: TextBlock[]): BookChapter[] => {
+  const level = pickChapterLevel(blocks);
+  const chapters: BookChapter[] = [];
+  let title = '';
+  let href = '';
+  let parts: string[] = [];
+
+  const flush = () => {
+    const text = parts.join('\n\n').replace(/\n{3,}/g, '\n\n').trim();
+    if (text) chapters.push({ title: title || (level > 0 ? 'Front Matter' : ''), href, text });
+  };
+
+  for (const block of blocks) {
+    if (level > 0 && block.heading?.level === level) {
+      flush();
+      title = block.heading.title;
+      href = `#${block.heading.id || `chapter-${chapters.length + 1}`}`;
+      parts = [];
+    } else if (block.text.trim()) {
+      parts.push(block.text);
+    }
+  }
+  flush();
+
+  return chapters;
+};
@@ -0,0 +1,72 @@
+import { ParsedBook, SummaryResult, ChatMessage } from '../types';
+import { formatBookText } from './epubService';
+import { estimateTokens, getChunkTokenBudget } from './chunkService';
+import { getProviderForModel } from './llmProvider';
+import { getRecapBook } from './recapService';
+
+export type GroundingSource = 'book' | 'summary';
+
+export interface ChatGrounding {
+  source: GroundingSource;
+  context: string;
+  readUpTo?: string; // Recaps: label of the reader's stopping point; the material ends there
+}
+
+// Pick what the chat answers from: the full parsed book when it is loaded and fits
+// a single request to the model, otherwise the saved summary (ideally an AI_AGENT context file).
+// For a recap, the book is cut at the reader's stopping point so answers can't spoil what comes after.
+export const buildChatGrounding = (book: ParsedBook | null, result: SummaryResult, modelId: string): ChatGrounding => {
+  const readUpTo = result.stoppingPoint?.label;
+  if (book) {
+    const bookText = formatBookText(result.stoppingPoint ? getRecapBook(book, result.stoppingPoint) : book);
+    if (estimateTokens(bookText) <= getChunkTokenBudget(modelId)) {
+      return { source: 'book', context: bookText, readUpTo };
+    }
+  }
+  return { source: 'summary', context: result.text, readUpTo };
+};
+
+const getChatInstruction = (grounding: ChatGrounding, fileName: string): string => {
+  const sourceDescription = grounding.source === 'book'
+    ? `${grounding.readUpTo ? 'the text, up to where the reader stopped,' : 'the full text'} of the book "${fileName}". Chapters are separated by "CHAPTER BREAK" markers and introduced by "CHAPTER: <title>" lines.`
+    : `a condensed summary of the book "${fileName}" (the full text is not available). Its headings correspond to the book's chapters or topics.`;
+  const spoilerRule = grounding.readUpTo
+    ? `\n    - **No spoilers.** The reader has only read up to the ${grounding.readUpTo}, where the material ends. Never reveal or speculate about anything that happens later in the book.`
+    : '';
+
+  return `You are a knowledgeable reading companion answering follow-up questions about a book.
+    You are given ${sourceDescription}
+
+    GUIDELINES FOR ANSWERS:
+    - **Grounded.** Answer only from the provided material. If it does not contain the answer, say so plainly instead of guessing.
+    - **Cite.** Name the chapter each point comes from, e.g. (Chapter: <title>). Quote short passages verbatim in quotation marks when they support the answer.
+    - **Concise.** Answer the question directly, then add supporting detail. Use Markdown for lists and emphasis.
+    - **Conversational.** Use earlier turns of the conversation to resolve follow-up questions.${spoilerRule}
+
+    ===== BEGIN MATERIAL =====
+    ${grounding.context}
+    ===== END MATERIAL =====`;
+};
+
+export const sendChatMessage = async (
+  modelId: string,
+  grounding: ChatGrounding,
+  fileName: string,
+  history: ChatMessage[],
+  message: string,
+  onPartial?: (text: string) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  const provider = getProviderForModel(modelId);
+  return provider.streamChat(
+    {
+      modelId,
+      systemInstruction: getChatInstruction(grounding, fileName),
+      temperature: 0.2,
+      history,
+      message,
+    },
+    onPartial,
+    signal
+  );
+};
@@ -0,0 +1,87 @@
+import { AVAILABLE_MODELS } from '../types';
+import { CHAPTER_BREAK } from './epubService';
+
+// Rough heuristic: ~4 characters per token for English prose.
+// Good enough for budgeting chunks without a round-trip to the token counter.
+const CHARS_PER_TOKEN = 4;
+
+// Per-chunk input budget. Well under the smallest supported context window so
+// the system instruction and the model's own output still fit.
+export const MAX_CHUNK_TOKENS = 150_000;
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+// Per-request input budget for a model: half its context window, leaving room for the
+// instruction and the output, and never more than MAX_CHUNK_TOKENS
+export const getChunkTokenBudget = (modelId: string): number => {
+  const model = AVAILABLE_MODELS.find(m => m.id === modelId);
+  return model ? Math.min(MAX_CHUNK_TOKENS, Math.floor(model.contextWindow / 2)) : MAX_CHUNK_TOKENS;
+};
+
+// Hard-split a single oversized section on paragraph boundaries (falling back to raw slicing
+// when a single paragraph is itself larger than the budget)
+const splitOversized = (section: string, maxChars: number): string[] => {
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const paragraph of section.split(/\n{2,}/)) {
+    if (paragraph.length > maxChars) {
+      if (current) {
+        pieces.push(current);
+        current = '';
+      }
+      for (let i = 0; i < paragraph.length; i += maxChars) {
+        pieces.push(paragraph.substring(i, i + maxChars));
+      }
+      continue;
+    }
+
+    if (current.length + paragraph.length + 2 > maxChars) {
+      pieces.push(current);
+      current = paragraph;
+    } else {
+      current = current ? `${current}\n\n${paragraph}` : paragraph;
+    }
+  }
+
+  if (current) pieces.push(current);
+  return pieces;
+};
+
+// Split extracted book text into chunks that each fit the token budget.
+// Chapters (delimited by CHAPTER BREAK markers) are kept whole and packed greedily;
+// plain text without markers is split on paragraph boundaries instead.
+export const splitIntoChunks = (text: string, maxTokens: number = MAX_CHUNK_TOKENS): string[] => {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  if (text.length <= maxChars) return [text];
+
+  const sections = text
+    .split(CHAPTER_BREAK)
+    .map(s => s.trim())
+    .filter(s => s.length > 0);
+
+  const chunks: string[] = [];
+  let current = '';
+  const separator = `\n\n${CHAPTER_BREAK}\n\n`;
+
+  for (const section of sections) {
+    if (section.length > maxChars) {
+      if (current) {
+        chunks.push(current);
+        current = '';
+      }
+      chunks.push(...splitOversized(section, maxChars));
+      continue;
+    }
+
+    if (current.length + separator.length + section.length > maxChars) {
+      chunks.push(current);
+      current = section;
+    } else {
+      current = current ? `${current}${separator}${section}` : section;
+    }
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+};
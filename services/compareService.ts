@@ -0,0 +1,109 @@
+export interface Section {
+  heading: string; // Empty for text before the first heading
+  body: string;
+}
+
+// One row of the comparison; a side is missing when only one summary has the section
+export interface AlignedSection {
+  heading: string;
+  left?: Section;
+  right?: Section;
+}
+
+export type DiffOp = 'same' | 'added' | 'removed';
+
+export interface DiffToken {
+  text: string; // A word with the whitespace that follows it
+  op: DiffOp;
+}
+
+// Above this many word pairs a section is compared as a whole rather than word by word
+const MAX_DIFF_CELLS = 4_000_000;
+
+// Split markdown into sections at headings (#..######), ignoring headings inside code fences
+export const splitSections = (markdown: string): Section[] => {
+  const sections: Section[] = [];
+  let current: Section = { heading: '', body: '' };
+  let inFence = false;
+
+  for (const line of markdown.split('\n')) {
+    if (line.trimStart().startsWith('```')) inFence = !inFence;
+    const match = !inFence && line.match(/^#{1,6}\s+(.*)$/);
+    if (match) {
+      if (current.heading || current.body.trim()) sections.push(current);
+      current = { heading: match[1].replace(/[*_`]/g, '').trim(), body: '' };
+    } else {
+      current.body += `${line}\n`;
+    }
+  }
+  if (current.heading || current.body.trim()) sections.push(current);
+  return sections.map(s => ({ ...s, body: s.body.trim() }));
+};
+
+// Helper to compare headings loosely ("1. Introduction" matches "Introduction")
+const normalizeHeading = (heading: string) =>
+  heading.toLowerCase().replace(/^(chapter\s+)?[\divxlc]+[.:)]\s+/, '').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Pair up sections with matching headings, keeping the order of both summaries.
+// Unmatched sections get a row of their own next to an empty cell.
+export const alignSections = (left: Section[], right: Section[]): AlignedSection[] => {
+  const rows: AlignedSection[] = [];
+  let r = 0;
+
+  for (const section of left) {
+    const key = normalizeHeading(section.heading);
+    const matchIndex = right.findIndex((candidate, i) => i >= r && normalizeHeading(candidate.heading) === key);
+    if (matchIndex === -1) {
+      rows.push({ heading: section.heading, left: section });
+      continue;
+    }
+    // Right-hand sections skipped over have no counterpart
+    for (; r < matchIndex; r++) rows.push({ heading: right[r].heading, right: right[r] });
+    rows.push({ heading: section.heading, left: section, right: right[matchIndex] });
+    r = matchIndex + 1;
+  }
+  for (; r < right.length; r++) rows.push({ heading: right[r].heading, right: right[r] });
+  return rows;
+};
+
+const tokenize = (text: string): string[] => text.match(/\S+\s*/g) || [];
+
+// Word-level diff (longest common subsequence) of two texts.
+// Whitespace differences are ignored when matching words.
+export const diffWords = (before: string, after: string): DiffToken[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [...a.map((text): DiffToken => ({ text, op: 'removed' })), ...b.map((text): DiffToken => ({ text, op: 'added' }))];
+  }
+
+  const same = (i: number, j: number) => a[i].trimEnd() === b[j].trimEnd();
+  // lengths[i][j] = LCS length of a[i..] and b[j..], stored row-major
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = same(i, j)
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const tokens: DiffToken[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (same(i, j)) {
+      tokens.push({ text: b[j], op: 'same' });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      tokens.push({ text: a[i++], op: 'removed' });
+    } else {
+      tokens.push({ text: b[j++], op: 'added' });
+    }
+  }
+  for (; i < a.length; i++) tokens.push({ text: a[i], op: 'removed' });
+  for (; j < b.length; j++) tokens.push({ text: b[j], op: 'added' });
+  return tokens;
+};
@@ -0,0 +1,99 @@
+import { AVAILABLE_MODELS, ModelOption, ModeDefinition, TokenUsage } from '../types';
+import { estimateTokens, splitIntoChunks, getChunkTokenBudget } from './chunkService';
+import { getProvider, ContentPart } from './llmProvider';
+
+// Assumed output size of one summary-style request, for estimates before generating
+const ESTIMATED_OUTPUT_TOKENS = 8_000;
+
+export const calculateCost = (modelId: string, inputTokens: number, outputTokens: number): number | undefined => {
+  const pricing = AVAILABLE_MODELS.find(m => m.id === modelId)?.pricing;
+  if (!pricing) return undefined;
+  return (inputTokens * pricing.inputPerMillion + outputTokens * pricing.outputPerMillion) / 1_000_000;
+};
+
+// Helper to add one request's usage to a running total, recomputing its cost
+export const addUsage = (total: TokenUsage | undefined, usage: TokenUsage, modelId: string): TokenUsage => {
+  const inputTokens = (total?.inputTokens || 0) + usage.inputTokens;
+  const outputTokens = (total?.outputTokens || 0) + usage.outputTokens;
+  return { inputTokens, outputTokens, costUsd: calculateCost(modelId, inputTokens, outputTokens) };
+};
+
+export const formatCost = (usd: number): string => {
+  if (usd === 0) return '$0.00';
+  return usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+};
+
+export const formatTokens = (tokens: number): string => {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+};
+
+export interface ModelEstimate {
+  model: ModelOption;
+  fitsContext: boolean; // The whole input fits one request
+  parts: number; // Requests in the map phase (1 when it fits)
+  costUsd?: number;
+}
+
+export interface RequestEstimate {
+  inputTokens: number;
+  exact: boolean; // Counted by the selected model's provider rather than estimated locally
+  models: ModelEstimate[];
+}
+
+// The payload a generation would send: extracted book text, or a document sent as-is
+export type EstimateContent = { text: string } | { inlineData: { data: string; mimeType: string } };
+
+// Helper to estimate the total output of a generation split into `parts` requests
+const estimateOutputTokens = (mode: ModeDefinition, parts: number, textTokens: number): number => {
+  if (mode.concatenateChunks) return textTokens; // Conversions reproduce the input
+  const mapOutput = parts * ESTIMATED_OUTPUT_TOKENS;
+  // Non-JSON modes merge the parts in one extra request
+  return parts > 1 && mode.outputFormat !== 'json' ? mapOutput + ESTIMATED_OUTPUT_TOKENS : mapOutput;
+};
+
+// Count the input tokens of a generation with the selected model's token counter (falling back
+// to the local estimate), then estimate how every available model would handle it.
+// Documents sent as-is can only be counted by the provider; otherwise inputTokens is 0.
+// With `countWithProvider` off, only the local estimate is used and no request is made.
+export const estimateRequest = async (
+  content: EstimateContent,
+  mode: ModeDefinition,
+  systemInstruction: string,
+  modelId: string,
+  countWithProvider = true
+): Promise<RequestEstimate> => {
+  const instructionTokens = estimateTokens(systemInstruction);
+  const part: ContentPart = 'text' in content ? { text: content.text } : content;
+
+  let inputTokens = 'text' in content ? estimateTokens(content.text) + instructionTokens : 0;
+  let exact = false;
+  const model = AVAILABLE_MODELS.find(m => m.id === modelId);
+  const provider = model && getProvider(model.provider);
+  if (countWithProvider && provider?.countTokens) {
+    try {
+      inputTokens = await provider.countTokens({ modelId, systemInstruction, temperature: mode.temperature, parts: [part] });
+      exact = true;
+    } catch (error) {
+      console.warn("Token counting failed, using the local estimate", error);
+    }
+  }
+
+  const textTokens = Math.max(0, inputTokens - instructionTokens);
+  const models = AVAILABLE_MODELS.map((m): ModelEstimate => {
+    const fitsContext = inputTokens <= m.contextWindow;
+    // Inline documents cannot be split, so they are always a single request
+    const parts = 'text' in content ? splitIntoChunks(content.text, getChunkTokenBudget(m.id)).length : 1;
+    const totalInput = inputTokens + (parts - 1) * instructionTokens
+      + (parts > 1 && !mode.concatenateChunks && mode.outputFormat !== 'json' ? parts * ESTIMATED_OUTPUT_TOKENS : 0);
+    return {
+      model: m,
+      fitsContext,
+      parts,
+      costUsd: calculateCost(m.id, totalInput, estimateOutputTokens(mode, parts, textTokens)),
+    };
+  });
+
+  return { inputTokens, exact, models };
+};
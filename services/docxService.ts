@@ -0,0 +1,114 @@
+import JSZip from 'jszip';
+import { ParsedBook } from '../types';
+import { TextBlock, groupIntoChapters } from './chapterService';
+
+const W_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const DC_NAMESPACE = 'http://purl.org/dc/elements/1.1/';
+
+// Helper to find a direct child in the WordprocessingML namespace
+const child = (el: Element | null | undefined, name: string): Element | undefined =>
+  el ? Array.from(el.children).find(c => c.localName === name && c.namespaceURI === W_NAMESPACE) : undefined;
+
+const getVal = (el: Element | undefined) => el?.getAttributeNS(W_NAMESPACE, 'val') ?? null;
+
+// Helper to map paragraph style ids to heading levels. Style ids are localized
+// (e.g. "berschrift1"), so levels come from the style name or its outline level.
+const readHeadingStyles = (stylesDoc: Document | null): Map<string, number> => {
+  const levels = new Map<string, number>();
+  if (!stylesDoc) return levels;
+  for (const style of Array.from(stylesDoc.getElementsByTagNameNS(W_NAMESPACE, 'style'))) {
+    const id = style.getAttributeNS(W_NAMESPACE, 'styleId');
+    if (!id || style.getAttributeNS(W_NAMESPACE, 'type') !== 'paragraph') continue;
+    const name = getVal(child(style, 'name')) || '';
+    const outline = getVal(child(child(style, 'pPr'), 'outlineLvl'));
+    const level = Number(name.match(/^heading (\d)$/i)?.[1]) || (outline !== null ? Number(outline) + 1 : 0);
+    if (level >= 1 && level <= 6) levels.set(id, level);
+  }
+  return levels;
+};
+
+// Helper to get the text of a paragraph, keeping tabs and manual line breaks
+const readParagraphText = (p: Element): string => {
+  let text = '';
+  for (const el of Array.from(p.getElementsByTagNameNS(W_NAMESPACE, '*'))) {
+    if (el.localName === 't') text += el.textContent || '';
+    else if (el.localName === 'tab') text += '\t';
+    else if (el.localName === 'br' || el.localName === 'cr') text += '\n';
+  }
+  return text.trim();
+};
+
+// Helper to turn the document body into paragraph blocks. Tables become one block
+// with a line per row; content controls (e.g. a generated table of contents) are unwrapped.
+const readBlocks = (container: Element, headingStyles: Map<string, number>, blocks: TextBlock[]) => {
+  for (const el of Array.from(container.children)) {
+    if (el.localName === 'p') {
+      const text = readParagraphText(el);
+      if (!text) continue;
+      const pPr = child(el, 'pPr');
+      const styleId = getVal(child(pPr, 'pStyle')) || '';
+      const outline = getVal(child(pPr, 'outlineLvl'));
+      const level = headingStyles.get(styleId)
+        || Number(styleId.match(/^heading(\d)$/i)?.[1])
+        || (outline !== null ? Number(outline) + 1 : 0);
+      if (level >= 1 && level <= 6) {
+        blocks.push({ text, heading: { level, title: text.replace(/\s+/g, ' ') } });
+      } else {
+        // List items (paragraphs with numbering properties) are shown as bullets
+        blocks.push({ text: child(pPr, 'numPr') ? `- ${text}` : text });
+      }
+    } else if (el.localName === 'tbl') {
+      const rows = Array.from(el.getElementsByTagNameNS(W_NAMESPACE, 'tr')).map(row =>
+        Array.from(row.getElementsByTagNameNS(W_NAMESPACE, 'tc'))
+          .map(cell => Array.from(cell.getElementsByTagNameNS(W_NAMESPACE, 'p')).map(readParagraphText).join(' '))
+          .join(' | ')
+      );
+      blocks.push({ text: rows.join('\n') });
+    } else if (el.localName === 'sdt') {
+      const content = child(el, 'sdtContent');
+      if (content) readBlocks(content, headingStyles, blocks);
+    }
+  }
+};
+
+// Word documents: text from word/document.xml, chapters from heading paragraphs,
+// metadata from docProps/core.xml
+export const parseDocx = async (file: File): Promise<ParsedBook> => {
+  try {
+    const zip = await JSZip.loadAsync(await file.arrayBuffer());
+    const parser = new DOMParser();
+    const readXml = async (path: string): Promise<Document | null> => {
+      const entry = zip.file(path);
+      return entry ? parser.parseFromString(await entry.async('text'), 'application/xml') : null;
+    };
+
+    const documentDoc = await readXml('word/document.xml');
+    if (!documentDoc) throw new Error("word/document.xml not found. This does not appear to be a valid DOCX file.");
+    if (documentDoc.querySelector('parsererror')) throw new Error("Failed to parse document XML structure");
+
+    const body = documentDoc.getElementsByTagNameNS(W_NAMESPACE, 'body')[0];
+    if (!body) throw new Error("Invalid DOCX: document body missing");
+
+    const blocks: TextBlock[] = [];
+    readBlocks(body, readHeadingStyles(await readXml('word/styles.xml')), blocks);
+
+    const chapters = groupIntoChapters(blocks);
+    if (chapters.length === 0) {
+      throw new Error("No readable text content found in the document.");
+    }
+
+    const coreDoc = await readXml('docProps/core.xml');
+    const readCore = (name: string) => coreDoc?.getElementsByTagNameNS(DC_NAMESPACE, name)[0]?.textContent?.trim() || '';
+
+    return {
+      title: readCore('title') || file.name.replace(/\.docx$/i, ''),
+      author: readCore('creator'),
+      language: readCore('language'),
+      chapters,
+    };
+
+  } catch (e: any) {
+    console.error("DOCX Parsing Error:", e);
+    throw new Error(`Failed to process DOCX: ${e.message}`);
+  }
+};
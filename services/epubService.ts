@@ -1,58 +1,35 @@
-import JSZip from 'jszip';
-
-// Helper to extract text with better formatting preservation
-// Walks the DOM tree and inserts newlines for block-level elements
-const extractReadableText = (htmlContent: string): string => {
-  const parser = new DOMParser();
-  // Parse as HTML (more lenient than application/xhtml+xml)
-  const doc = parser.parseFromString(htmlContent, "text/html");
-
-  const walk = (node: Node): string => {
-    if (node.nodeType === Node.TEXT_NODE) {
-      return node.textContent || '';
-    }
-    
-    if (node.nodeType === Node.ELEMENT_NODE) {
-      const el = node as Element;
-      const tag = el.tagName.toLowerCase();
+import { ParsedBook, BookChapter, BookImage } from '../types';
+import { BookArchive, openArchive } from './archiveService';
+import { MarkupNode, extractReadableText, findElement, findElements, findHeading, getChildElements, parseMarkup } from './markupService';
 
-      // Skip non-content tags
-      if (['script', 'style', 'svg', 'noscript', 'meta', 'link', 'head'].includes(tag)) {
-        return '';
-      }
+// Separator placed between spine items in the extracted text.
+// Downstream consumers (chunking, CHAPTER_BY_CHAPTER prompts) split on this marker.
+export const CHAPTER_BREAK = "------------------- CHAPTER BREAK -------------------";
 
-      let content = '';
-      const childNodes = Array.from(node.childNodes);
-      for (const child of childNodes) {
-        content += walk(child);
-      }
+// Images smaller than this are usually ornaments or icons rather than figures
+const MIN_IMAGE_BYTES = 5_000;
+// Larger images would crowd out the text in a request
+const MAX_IMAGE_BYTES = 4 * 1024 * 1024;
+const MAX_BOOK_IMAGES = 60;
 
-      // Clean up internal whitespace: collapse tabs/newlines into single space
-      content = content.replace(/[\t\r\n]+/g, ' ');
+// Image types multimodal models accept as inline data (SVG and GIF are not among them)
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+};
 
-      // Add structure based on tags
-      // Block elements: Surround with newlines
-      if (['p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'blockquote', 'section', 'article', 'main', 'header', 'footer'].includes(tag)) {
-        return `\n${content.trim()}\n`;
-      }
-      // Explicit Line breaks
-      if (tag === 'br') return '\n';
-      // Table rows
-      if (tag === 'tr') return `\n${content.trim()}`;
-      // Table cells
-      if (tag === 'td' || tag === 'th') return ` ${content.trim()} `;
-      
-      return content;
-    }
-    return '';
-  };
+// Placeholder marking where a figure appeared in the extracted text
+export const getFigurePlaceholder = (image: BookImage): string =>
+  image.alt ? `[FIGURE ${image.id}: ${image.alt}]` : `[FIGURE ${image.id}]`;
 
-  // Walk the body
-  const rawText = walk(doc.body || doc.documentElement);
-  
-  // Final Cleanup: Normalize multiple newlines to max 2 to preserve paragraph separation without massive gaps
-  return rawText.replace(/\n{3,}/g, '\n\n').trim();
-};
+// Ids of the figures whose placeholders appear in a piece of text, in order
+export const getFigureIds = (text: string): string[] =>
+  Array.from(new Set(Array.from(text.matchAll(/\[FIGURE (fig-\d+)[:\]]/g), match => match[1])));
+
+// Temporary marker for an image reference, replaced once the image has been loaded
+const imageToken = (index: number) => `\u0000${index}\u0000`;
 
 // Helper to resolve paths relative to the OPF directory
 // e.g. base: "OEBPS/", relative: "../Images/cover.jpg" -> "Images/cover.jpg"
@@ -74,39 +51,174 @@ const resolvePath = (baseDir: string, relativePath: string): string => {
   return stack.join('/');
 };
 
-export const parseEpub = async (file: File): Promise<string> => {
+const dirOf = (path: string) => path.includes('/') ? path.substring(0, path.lastIndexOf('/') + 1) : '';
+
+interface ImageRef {
+  src: string;
+  alt: string;
+}
+
+// Images loaded so far for a book, by zip path (null when skipped), so an image used
+// more than once keeps one figure id
+interface ImageCollector {
+  byPath: Map<string, BookImage | null>;
+  count: number;
+}
+
+// Helper to load one referenced image, or null when it is missing, unsupported or decorative
+const loadImage = async (archive: BookArchive, chapterDir: string, ref: ImageRef, collector: ImageCollector): Promise<BookImage | null> => {
+  let mimeType: string | undefined;
+  let data: string | undefined;
+  let key = ref.src;
+
+  const dataUri = ref.src.match(/^data:(image\/[\w+.-]+);base64,(.*)$/s);
+  if (dataUri) {
+    [, mimeType, data] = dataUri;
+    if (!Object.values(IMAGE_MIME_TYPES).includes(mimeType)) return null;
+  } else {
+    if (/^[a-z]+:/i.test(ref.src)) return null; // Remote images are not part of the book
+    key = decodeURIComponent(resolvePath(chapterDir, ref.src.split('#')[0]));
+    if (collector.byPath.has(key)) return collector.byPath.get(key)!;
+    mimeType = IMAGE_MIME_TYPES[key.split('.').pop()?.toLowerCase() || ''];
+    if (mimeType) data = await archive.read(key, 'base64') ?? undefined;
+  }
+
+  let image: BookImage | null = null;
+  const bytes = data ? (data.length * 3) / 4 : 0;
+  if (mimeType && data && bytes >= MIN_IMAGE_BYTES && bytes <= MAX_IMAGE_BYTES && collector.count < MAX_BOOK_IMAGES) {
+    collector.count++;
+    image = { id: `fig-${collector.count}`, mimeType, data, alt: ref.alt };
+  }
+  collector.byPath.set(key, image);
+  return image;
+};
+
+// Helper to replace a chapter's image markers with figure placeholders (or nothing, for skipped images)
+const resolveImages = async (
+  archive: BookArchive,
+  chapterDir: string,
+  text: string,
+  refs: ImageRef[],
+  collector: ImageCollector
+): Promise<{ text: string; images: BookImage[] }> => {
+  const images: BookImage[] = [];
+  let resolved = text;
+  for (let i = 0; i < refs.length; i++) {
+    const image = await loadImage(archive, chapterDir, refs[i], collector);
+    if (image && !images.includes(image)) images.push(image);
+    // A function replacer, so "$&" and the like in book-provided alt text are not expanded
+    const placeholder = image ? getFigurePlaceholder(image) : '';
+    resolved = resolved.replace(imageToken(i), () => placeholder);
+  }
+  return { text: resolved.replace(/\n{3,}/g, '\n\n').trim(), images };
+};
+
+const DC_NAMESPACE = 'http://purl.org/dc/elements/1.1/';
+
+// Helper to read the first Dublin Core metadata value (dc:title, dc:creator, ...) from the OPF
+const getDcValue = (opfDoc: MarkupNode, name: string): string => {
+  const el = findElements(opfDoc, name).find(el => el.namespaceURI === DC_NAMESPACE);
+  return el?.textContent?.replace(/\s+/g, ' ').trim() || '';
+};
+
+// Helper to build a map of zip path -> TOC title.
+// Prefers the EPUB3 nav document and falls back to the EPUB2 NCX.
+// Fragment links (chapter.xhtml#section2) map to their file; the first entry per file wins.
+const parseTableOfContents = async (
+  archive: BookArchive,
+  opfDoc: MarkupNode,
+  opfDir: string
+): Promise<Record<string, string>> => {
+  const titles: Record<string, string> = {};
+  const addEntry = (baseDir: string, href: string | null, label: string | null | undefined) => {
+    const title = label?.replace(/\s+/g, ' ').trim();
+    if (!href || !title) return;
+    const path = decodeURIComponent(resolvePath(baseDir, href.split('#')[0]));
+    if (!(path in titles)) titles[path] = title;
+  };
+
+  const manifestItems = findElements(opfDoc, 'manifest').flatMap(manifest => getChildElements(manifest, 'item'));
+  const navItem = manifestItems.find(item => item.getAttribute('properties')?.split(/\s+/).includes('nav'));
+  const navHref = navItem?.getAttribute('href');
+  if (navHref) {
+    const navPath = resolvePath(opfDir, navHref);
+    const navHtml = await archive.read(navPath, 'text');
+    if (navHtml) {
+      const navs = findElements(parseMarkup(navHtml, 'text/html'), 'nav');
+      const tocNav = navs.find(nav => nav.getAttribute('epub:type') === 'toc' || nav.getAttribute('role') === 'doc-toc') || navs[0];
+      if (tocNav) findElements(tocNav, 'a').forEach(a => addEntry(dirOf(navPath), a.getAttribute('href'), a.textContent));
+    }
+  }
+
+  if (Object.keys(titles).length > 0) return titles;
+
+  const tocId = findElement(opfDoc, 'spine')?.getAttribute('toc');
+  const ncxItem = (tocId && manifestItems.find(item => item.getAttribute('id') === tocId))
+    || manifestItems.find(item => item.getAttribute('media-type') === 'application/x-dtbncx+xml');
+  const ncxHref = ncxItem?.getAttribute('href');
+  if (ncxHref) {
+    const ncxPath = resolvePath(opfDir, ncxHref);
+    const ncxXml = await archive.read(ncxPath, 'text');
+    if (ncxXml) {
+      findElements(parseMarkup(ncxXml, 'application/xml'), 'navPoint').forEach(navPoint => {
+        const label = findElements(navPoint, 'navLabel').flatMap(navLabel => getChildElements(navLabel, 'text'))[0]?.textContent;
+        const src = findElement(navPoint, 'content')?.getAttribute('src') ?? null;
+        addEntry(dirOf(ncxPath), src, label);
+      });
+    }
+  }
+
+  return titles;
+};
+
+// Flatten a parsed book into the text payload sent to the model.
+// Each chapter is separated by a CHAPTER BREAK marker and announced with its real title (if any).
+export const formatBookText = (book: ParsedBook): string => {
+  return book.chapters
+    .map(chapter => chapter.title ? `CHAPTER: ${chapter.title}\n\n${chapter.text}` : chapter.text)
+    .join(`\n\n${CHAPTER_BREAK}\n\n`);
+};
+
+// Titles announced in text produced by formatBookText (e.g. one chunk of it), in order
+export const getChapterTitles = (text: string): string[] =>
+  Array.from(text.matchAll(/^CHAPTER: (.+)$/gm), match => match[1].trim());
+
+
+// Read an EPUB into chapters. Runs in the book worker in the browser (see bookWorkerClient),
+// so it uses the DOM-free markup parser; `signal` is only needed where it runs in-process.
+export const readEpub = async (
+  buffer: ArrayBuffer,
+  fileName: string,
+  onProgress?: (progress: string) => void,
+  signal?: AbortSignal
+): Promise<ParsedBook> => {
   try {
-    const zip = await JSZip.loadAsync(file);
+    const archive = await openArchive(buffer);
     
     // 1. Find the OPF file path from META-INF/container.xml
-    const containerFile = zip.file("META-INF/container.xml");
-    if (!containerFile) throw new Error("META-INF/container.xml not found. This does not appear to be a valid EPUB.");
-    
-    const containerXml = await containerFile.async("text");
-    const parser = new DOMParser();
-    const containerDoc = parser.parseFromString(containerXml, "application/xml");
+    const containerXml = await archive.read("META-INF/container.xml", "text");
+    if (containerXml === null) throw new Error("META-INF/container.xml not found. This does not appear to be a valid EPUB.");
     
-    const rootFile = containerDoc.querySelector("rootfile");
+    const rootFile = findElement(parseMarkup(containerXml, "application/xml"), "rootfile");
     if (!rootFile) throw new Error("Invalid EPUB: No <rootfile> defined in container.xml");
 
     const opfPath = rootFile.getAttribute("full-path");
     if (!opfPath) throw new Error("Invalid EPUB: Rootfile missing full-path attribute");
 
     // 2. Read the OPF file
-    const opfFile = zip.file(opfPath);
-    if (!opfFile) throw new Error(`Invalid EPUB: OPF file not found at ${opfPath}`);
+    const opfXml = await archive.read(opfPath, "text");
+    if (opfXml === null) throw new Error(`Invalid EPUB: OPF file not found at ${opfPath}`);
 
-    const opfXml = await opfFile.async("text");
-    const opfDoc = parser.parseFromString(opfXml, "application/xml");
+    const opfDoc = parseMarkup(opfXml, "application/xml");
     
-    if (opfDoc.querySelector("parsererror")) throw new Error("Failed to parse OPF XML structure");
+    if (opfDoc.parseError) throw new Error("Failed to parse OPF XML structure");
 
     // 3. Parse Manifest (ID -> Href)
-    const manifest = opfDoc.querySelector("manifest");
+    const manifest = findElement(opfDoc, "manifest");
     if (!manifest) throw new Error("Invalid EPUB: OPF manifest missing");
 
     const idToHref: Record<string, string> = {};
-    const items = Array.from(manifest.querySelectorAll("item"));
+    const items = findElements(manifest, "item");
     items.forEach(item => {
       const id = item.getAttribute("id");
       const href = item.getAttribute("href");
@@ -116,47 +228,63 @@ export const parseEpub = async (file: File): Promise<string> => {
     });
 
     // 4. Parse Spine (Order of IDs)
-    const spine = opfDoc.querySelector("spine");
+    const spine = findElement(opfDoc, "spine");
     if (!spine) throw new Error("Invalid EPUB: OPF spine missing");
 
-    const itemrefs = Array.from(spine.querySelectorAll("itemref"));
+    const itemrefs = findElements(spine, "itemref");
     
-    // 5. Extract Text in Spine Order
+    // 5. Parse Table of Contents (nav document or NCX) for chapter titles
     const opfDir = opfPath.includes('/') ? opfPath.substring(0, opfPath.lastIndexOf('/') + 1) : '';
-    const textParts: string[] = [];
-
-    for (const itemref of itemrefs) {
-      const idref = itemref.getAttribute("idref");
-      if (!idref) continue;
-
-      const relativeHref = idToHref[idref];
-      if (!relativeHref) continue;
-
-      // Resolve full path in zip
-      const fullPath = resolvePath(opfDir, relativeHref);
-      
-      // Handle URL encoding (common in EPUBs)
-      // Try exact match first, then decoded, then encoded
-      let fileInZip = zip.file(fullPath) || zip.file(decodeURIComponent(fullPath));
-
-      if (fileInZip) {
-        const content = await fileInZip.async("text");
-        const readableText = extractReadableText(content);
-        if (readableText.length > 0) {
-          textParts.push(readableText);
+    const tocTitles = await parseTableOfContents(archive, opfDoc, opfDir);
+
+    // 6. Extract Text (and figures) in Spine Order
+    const chapters: BookChapter[] = [];
+    const collector: ImageCollector = { byPath: new Map(), count: 0 };
+
+    // Resolve full paths in zip
+    const spinePaths = itemrefs
+      .map(itemref => idToHref[itemref.getAttribute("idref") || ''])
+      .filter(href => !!href)
+      .map(href => resolvePath(opfDir, href));
+
+    for (const [i, fullPath] of spinePaths.entries()) {
+      if (signal?.aborted) throw new Error("Cancelled");
+      onProgress?.(`Reading spine item ${i + 1}/${spinePaths.length}...`);
+
+      const content = await archive.read(fullPath, "text");
+      if (content !== null) {
+        // Parse as HTML (more lenient than XHTML)
+        const doc = parseMarkup(content, "text/html");
+        const refs: ImageRef[] = [];
+        const markedText = extractReadableText(doc, (src, alt) => imageToken(refs.push({ src, alt }) - 1));
+        // Image-only pages (covers, title pages) are skipped, as before figures were extracted
+        if (markedText.replace(/\u0000\d+\u0000/g, '').trim().length > 0) {
+          const { text, images } = await resolveImages(archive, dirOf(fullPath), markedText, refs, collector);
+          chapters.push({
+            title: tocTitles[decodeURIComponent(fullPath)] || findHeading(doc) || `Section ${chapters.length + 1}`,
+            href: fullPath,
+            text,
+            ...(images.length > 0 && { images }),
+          });
         }
       }
     }
 
-    // 6. Final Assembly
-    if (textParts.length === 0) {
+    // 7. Final Assembly
+    if (chapters.length === 0) {
       throw new Error("No readable text content found in EPUB structure.");
     }
 
-    return textParts.join("\n\n------------------- CHAPTER BREAK -------------------\n\n");
+    return {
+      title: getDcValue(opfDoc, 'title') || fileName.replace(/\.epub$/i, ''),
+      author: getDcValue(opfDoc, 'creator'),
+      language: getDcValue(opfDoc, 'language'),
+      chapters,
+    };
 
   } catch (e: any) {
+    if (signal?.aborted) throw new Error("Cancelled");
     console.error("EPUB Parsing Error:", e);
     throw new Error(`Failed to process EPUB: ${e.message}`);
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,177 @@
+export type LLMErrorKind = 'auth' | 'quota' | 'rate-limit' | 'safety-block' | 'too-large' | 'network' | 'unknown';
+
+// Base class for classified model errors. `location` names the part of the book being
+// processed when the error happened (e.g. a chapter), when known.
+export class LLMError extends Error {
+  readonly kind: LLMErrorKind;
+  readonly retryable: boolean;
+  location?: string;
+
+  constructor(kind: LLMErrorKind, message: string, retryable = false) {
+    super(message);
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.retryable = retryable;
+  }
+}
+
+export class AuthError extends LLMError {
+  constructor(message: string) {
+    super('auth', message);
+    this.name = 'AuthError';
+  }
+}
+
+export class QuotaError extends LLMError {
+  constructor(message: string) {
+    super('quota', message);
+    this.name = 'QuotaError';
+  }
+}
+
+export class RateLimitError extends LLMError {
+  readonly retryAfterMs?: number; // Delay requested by the server, if it sent one
+
+  constructor(message: string, retryAfterMs?: number) {
+    super('rate-limit', message, true);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class SafetyBlockError extends LLMError {
+  constructor(message: string) {
+    super('safety-block', message);
+    this.name = 'SafetyBlockError';
+  }
+}
+
+export class TooLargeError extends LLMError {
+  constructor(message: string) {
+    super('too-large', message);
+    this.name = 'TooLargeError';
+  }
+}
+
+// Connection failures and temporary server errors (5xx); both are worth retrying
+export class NetworkError extends LLMError {
+  constructor(message: string) {
+    super('network', message, true);
+    this.name = 'NetworkError';
+  }
+}
+
+// Helper to read a server-suggested retry delay, from a Retry-After header value
+// or the "retryDelay" field Gemini includes in rate-limit error details
+const parseRetryAfter = (message: string, retryAfterHeader?: string | null): number | undefined => {
+  if (retryAfterHeader && /^\d+$/.test(retryAfterHeader.trim())) return parseInt(retryAfterHeader, 10) * 1000;
+  const match = message.match(/"?retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? parseFloat(match[1]) * 1000 : undefined;
+};
+
+// Map a provider failure to one of the error classes above.
+// `status` is the HTTP status when the provider exposes it.
+export const classifyError = (error: any, status?: number, retryAfterHeader?: string | null): LLMError => {
+  if (error instanceof LLMError) return error;
+
+  const message: string = error?.message || String(error) || 'Unknown error';
+  const lower = message.toLowerCase();
+  const code = status ?? (typeof error?.status === 'number' ? error.status : undefined);
+
+  if (code === 401 || code === 403 || lower.includes('api key not valid') || lower.includes('permission_denied') || lower.includes('unauthenticated')) {
+    return new AuthError(message);
+  }
+  if (code === 429 || lower.includes('resource_exhausted') || lower.includes('rate limit')) {
+    // Gemini answers per-minute and per-day limits alike with "You exceeded your current quota,
+    // please check your plan and billing details". A suggested delay or a per-minute quota
+    // metric means waiting helps; only daily limits and disabled billing won't recover soon.
+    const retryAfterMs = parseRetryAfter(message, retryAfterHeader);
+    const perMinute = lower.includes('perminute') || lower.includes('per minute');
+    const perDay = lower.includes('perday') || lower.includes('per day');
+    const billingDisabled = lower.includes('billing_disabled') || lower.includes('billing is not enabled') || lower.includes('billing to be enabled');
+    if (retryAfterMs === undefined && !perMinute && (perDay || billingDisabled)) {
+      return new QuotaError(message);
+    }
+    return new RateLimitError(message, retryAfterMs);
+  }
+  if (code === 413 || lower.includes('exceeds the maximum number of tokens') || lower.includes('context length') || lower.includes('too large')) {
+    return new TooLargeError(message);
+  }
+  if (lower.includes('safety') || lower.includes('prohibited_content') || lower.includes('blocked')) {
+    return new SafetyBlockError(message);
+  }
+  if ((code !== undefined && code >= 500) || error instanceof TypeError || lower.includes('failed to fetch') || lower.includes('network')) {
+    return new NetworkError(message);
+  }
+  // Unclassified errors keep their message and are not retried
+  return new LLMError('unknown', message);
+};
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  onRetry?: (error: LLMError, delayMs: number, attempt: number) => void;
+}
+
+const MAX_ATTEMPTS = 5;
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 60_000;
+
+// Resolves after `ms`, or early (with false) if the signal aborts
+const sleep = (ms: number, signal?: AbortSignal): Promise<boolean> => new Promise(resolve => {
+  if (signal?.aborted) return resolve(false);
+  const onAbort = () => {
+    clearTimeout(timer);
+    resolve(false);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve(true);
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Run a request, retrying retryable errors with exponential backoff and jitter.
+// Resolves with `fallback` if the signal aborts while waiting for the next attempt.
+export const withRetry = async <T>(run: () => Promise<T>, fallback: T, options: RetryOptions = {}): Promise<T> => {
+  const { signal, onRetry } = options;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (err: any) {
+      const error = classifyError(err);
+      if (!error.retryable || attempt >= MAX_ATTEMPTS || signal?.aborted) throw error;
+
+      const backoff = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+      const jittered = backoff / 2 + Math.random() * backoff / 2;
+      const delayMs = error instanceof RateLimitError && error.retryAfterMs
+        ? Math.max(error.retryAfterMs, jittered)
+        : jittered;
+
+      onRetry?.(error, delayMs, attempt);
+      if (!(await sleep(delayMs, signal))) return fallback;
+    }
+  }
+};
+
+// What the user can do about an error, for the error box
+export const getActionableMessage = (error: any): string => {
+  if (!(error instanceof LLMError)) return error?.message || "An unexpected error occurred";
+
+  const where = error.location ? ` in ${error.location}` : '';
+  switch (error.kind) {
+    case 'auth':
+      return "The API key was rejected. Check that the key configured for this provider is valid and has access to this model.";
+    case 'quota':
+      return "Your API quota is exhausted. Wait for it to reset, enable billing, or switch to another model.";
+    case 'rate-limit':
+      return `The model is rate limiting requests${where} and retries did not succeed. Wait a minute and try again, or choose fewer chapters.`;
+    case 'safety-block':
+      return `The model blocked content${where}. Deselect ${error.location ? 'that part' : 'the affected chapters'} and try again, or use another model.`;
+    case 'too-large':
+      return `The input${where} is too large for this model. Select fewer chapters or choose a model with a larger context window.`;
+    case 'network':
+      return `Could not reach the model service${where} after several attempts. Check your connection and try again.`;
+    case 'unknown':
+      return where ? `${error.message} (${error.location})` : error.message;
+  }
+};
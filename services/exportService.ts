@@ -0,0 +1,241 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown, { defaultUrlTransform } from 'react-markdown';
+import JSZip from 'jszip';
+import { SummaryResult, AVAILABLE_MODELS } from '../types';
+import { resolveResultMode } from './modeService';
+
+interface ExportSection {
+  title: string;
+  markdown: string;
+}
+
+const STYLES = `
+  body { font-family: Georgia, 'Times New Roman', serif; line-height: 1.6; color: #1f2937; max-width: 46em; margin: 0 auto; padding: 2em 1.25em; }
+  h1, h2, h3, h4 { font-family: -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; line-height: 1.25; color: #111827; }
+  h1 { font-size: 1.9em; margin-bottom: 0.2em; }
+  h2 { font-size: 1.4em; margin-top: 1.8em; border-bottom: 1px solid #e5e7eb; padding-bottom: 0.2em; }
+  code { font-family: Menlo, Consolas, monospace; font-size: 0.9em; background: #f3f4f6; padding: 0.1em 0.3em; border-radius: 3px; }
+  pre { background: #f3f4f6; padding: 1em; overflow-x: auto; border-radius: 6px; }
+  pre code { background: none; padding: 0; }
+  blockquote { margin: 1em 0; padding-left: 1em; border-left: 3px solid #d1d5db; color: #4b5563; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #d1d5db; padding: 0.4em 0.6em; text-align: left; }
+  .meta { font-family: -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; font-size: 0.85em; color: #6b7280; margin-bottom: 2em; }
+`;
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const getModelName = (modelId?: string): string =>
+  AVAILABLE_MODELS.find(m => m.id === modelId)?.name || modelId || 'unknown';
+
+const getModeName = (result: SummaryResult): string => resolveResultMode(result).name;
+
+const getTitle = (result: SummaryResult): string => result.fileName.replace(/\.[^.]+$/, '');
+
+const getBaseFileName = (result: SummaryResult): string =>
+  `${getTitle(result)}-${getModeName(result).toLowerCase()}`.replace(/[^\w.-]+/g, '_');
+
+// Summary as Markdown; structured (JSON) results are shown as a code block.
+// Book figures (figure:<id> images) are embedded as data URLs so the export is self-contained.
+const getMarkdownBody = (result: SummaryResult): string => {
+  if (resolveResultMode(result).outputFormat === 'json') return `\`\`\`json\n${result.text.trim()}\n\`\`\``;
+  const figures = new Map((result.figures || []).map(figure => [figure.id, figure]));
+  return result.text.replace(/\(figure:(fig-\d+)\)/g, (match, id: string) => {
+    const figure = figures.get(id);
+    return figure ? `(data:${figure.mimeType};base64,${figure.data})` : match;
+  });
+};
+
+// Render Markdown to static HTML with the same renderer the viewer uses (keeping embedded figures)
+const markdownToHtml = (markdown: string): string =>
+  renderToStaticMarkup(React.createElement(ReactMarkdown, {
+    urlTransform: (url: string) => url.startsWith('data:image/') ? url : defaultUrlTransform(url),
+  }, markdown));
+
+// Split the summary into sections at its H2 headings.
+// Content before the first H2 becomes an "Overview" section.
+const splitSections = (result: SummaryResult): ExportSection[] => {
+  const sections: ExportSection[] = [];
+  let current: ExportSection = { title: 'Overview', markdown: '' };
+  let inCodeFence = false;
+
+  const markdown = getMarkdownBody(result);
+  for (const line of markdown.split('\n')) {
+    if (line.trimStart().startsWith('```')) inCodeFence = !inCodeFence;
+    const heading = !inCodeFence && line.match(/^##\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      if (current.markdown.trim()) sections.push(current);
+      current = { title: heading[1].replace(/[*_`]/g, ''), markdown: `${line}\n` };
+    } else {
+      current.markdown += `${line}\n`;
+    }
+  }
+  if (current.markdown.trim()) sections.push(current);
+
+  if (sections.length === 0) return [{ title: getTitle(result), markdown }];
+  return sections;
+};
+
+export const triggerDownload = (content: Blob | string, fileName: string, mimeType: string) => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const buildMarkdown = (result: SummaryResult): string => {
+  const frontMatter = [
+    '---',
+    `title: ${JSON.stringify(getTitle(result))}`,
+    `source: ${JSON.stringify(result.fileName)}`,
+    `mode: ${JSON.stringify(getModeName(result))}`,
+    `model: ${JSON.stringify(result.modelId || 'unknown')}`,
+    `timestamp: ${new Date(result.timestamp).toISOString()}`,
+    ...(result.isPartial ? ['partial: true'] : []),
+    '---',
+    '',
+  ].join('\n');
+
+  return `${frontMatter}\n${getMarkdownBody(result).trim()}\n`;
+};
+
+export const buildHtml = (result: SummaryResult): string => {
+  const title = escapeXml(getTitle(result));
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${title}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p class="meta">${escapeXml(result.fileName)} · ${escapeXml(getModeName(result))} · ${escapeXml(getModelName(result.modelId))} · ${new Date(result.timestamp).toLocaleString()}</p>
+${markdownToHtml(getMarkdownBody(result))}
+</body>
+</html>
+`;
+};
+
+export const buildEpub = async (result: SummaryResult): Promise<Blob> => {
+  const title = getTitle(result);
+  const identifier = `urn:uuid:${result.id}`;
+  const modified = new Date(result.timestamp).toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const sections = splitSections(result);
+
+  const zip = new JSZip();
+  // The mimetype entry must come first and be stored uncompressed
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+
+  zip.file('META-INF/container.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`);
+
+  zip.file('OEBPS/style.css', STYLES);
+
+  sections.forEach((section, i) => {
+    zip.file(`OEBPS/chapter-${i + 1}.xhtml`, `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="en" xml:lang="en">
+<head>
+<title>${escapeXml(section.title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css" />
+</head>
+<body>
+${markdownToHtml(section.markdown)}
+</body>
+</html>
+`);
+  });
+
+  zip.file('OEBPS/nav.xhtml', `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="en" xml:lang="en">
+<head><title>${escapeXml(title)}</title></head>
+<body>
+<nav epub:type="toc" id="toc">
+<h1>Contents</h1>
+<ol>
+${sections.map((s, i) => `<li><a href="chapter-${i + 1}.xhtml">${escapeXml(s.title)}</a></li>`).join('\n')}
+</ol>
+</nav>
+</body>
+</html>
+`);
+
+  // NCX for EPUB2 readers
+  zip.file('OEBPS/toc.ncx', `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+<head><meta name="dtb:uid" content="${identifier}"/></head>
+<docTitle><text>${escapeXml(title)}</text></docTitle>
+<navMap>
+${sections.map((s, i) => `<navPoint id="navpoint-${i + 1}" playOrder="${i + 1}"><navLabel><text>${escapeXml(s.title)}</text></navLabel><content src="chapter-${i + 1}.xhtml"/></navPoint>`).join('\n')}
+</navMap>
+</ncx>
+`);
+
+  zip.file('OEBPS/content.opf', `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">${identifier}</dc:identifier>
+<dc:title>${escapeXml(title)}</dc:title>
+<dc:language>en</dc:language>
+<dc:creator>Gemini Ebook Lens</dc:creator>
+<dc:description>${escapeXml(`${getModeName(result)} summary of ${result.fileName} (${getModelName(result.modelId)})`)}</dc:description>
+<meta property="dcterms:modified">${modified}</meta>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>
+<item id="style" href="style.css" media-type="text/css"/>
+${sections.map((_, i) => `<item id="chapter-${i + 1}" href="chapter-${i + 1}.xhtml" media-type="application/xhtml+xml"/>`).join('\n')}
+</manifest>
+<spine toc="ncx">
+${sections.map((_, i) => `<itemref idref="chapter-${i + 1}"/>`).join('\n')}
+</spine>
+</package>
+`);
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/epub+zip' });
+};
+
+export const exportMarkdown = (result: SummaryResult) =>
+  triggerDownload(buildMarkdown(result), `${getBaseFileName(result)}.md`, 'text/markdown;charset=utf-8');
+
+export const exportHtml = (result: SummaryResult) =>
+  triggerDownload(buildHtml(result), `${getBaseFileName(result)}.html`, 'text/html;charset=utf-8');
+
+export const exportJson = (result: SummaryResult) =>
+  triggerDownload(result.text, `${getBaseFileName(result)}.json`, 'application/json;charset=utf-8');
+
+export const exportEpub = async (result: SummaryResult) =>
+  triggerDownload(await buildEpub(result), `${getBaseFileName(result)}.epub`, 'application/epub+zip');
+
+// PDF export goes through the browser's print dialog ("Save as PDF") on the standalone HTML
+export const printAsPdf = (result: SummaryResult) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) throw new Error("Pop-up blocked. Allow pop-ups for this site to export as PDF.");
+  printWindow.document.open();
+  printWindow.document.write(buildHtml(result));
+  printWindow.document.close();
+  printWindow.focus();
+  // Give the new document a moment to lay out before opening the dialog
+  setTimeout(() => printWindow.print(), 250);
+};
@@ -0,0 +1,110 @@
+import { ParsedBook, BookChapter } from '../types';
+import { decodeMarkup } from './htmlService';
+
+// Elements holding one line or paragraph of text
+const LINE_TAGS = ['p', 'v', 'subtitle', 'text-author', 'date', 'td', 'th'];
+
+// Helper to extract text from FictionBook markup, mirroring extractReadableText:
+// paragraphs are separated by blank lines and poem lines stay together within a stanza.
+// With `until`, only the content before that child element is read.
+const extractSectionText = (section: Element, until?: Element): string => {
+  const walk = (el: Element): string => {
+    const tag = el.localName;
+    if (tag === 'empty-line') return '\n';
+    if (tag === 'image' || tag === 'binary') return '';
+    if (LINE_TAGS.includes(tag)) return `\n${(el.textContent || '').replace(/\s+/g, ' ').trim()}\n`;
+
+    const content = Array.from(el.children).map(walk).join('');
+    return tag === 'stanza' ? `\n${content.replace(/\n+/g, '\n').trim()}\n\n` : content;
+  };
+
+  // The section's own title becomes the chapter title; nested section titles stay in the text
+  const children = Array.from(section.children);
+  const text = children
+    .slice(0, until ? children.indexOf(until) : undefined)
+    .filter(el => el.localName !== 'title')
+    .map(walk)
+    .join('');
+  return text.replace(/\n{3,}/g, '\n\n').trim();
+};
+
+const getTitle = (section: Element): string => {
+  const title = Array.from(section.children).find(el => el.localName === 'title');
+  if (!title) return '';
+  return Array.from(title.children)
+    .map(p => (p.textContent || '').replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join(': ');
+};
+
+const childSections = (el: Element) => Array.from(el.children).filter(c => c.localName === 'section');
+
+// Helper to read the author names from <title-info>
+const getAuthors = (titleInfo: Element | null): string => {
+  if (!titleInfo) return '';
+  return Array.from(titleInfo.children)
+    .filter(el => el.localName === 'author')
+    .map(author => ['first-name', 'middle-name', 'last-name']
+      .map(name => author.querySelector(name)?.textContent?.trim())
+      .filter(Boolean)
+      .join(' ') || author.querySelector('nickname')?.textContent?.trim() || '')
+    .filter(Boolean)
+    .join(', ');
+};
+
+// FictionBook 2 (.fb2): a single XML file whose main <body> holds nested <section>s
+export const parseFb2 = async (file: File): Promise<ParsedBook> => {
+  try {
+    const xml = decodeMarkup(new Uint8Array(await file.arrayBuffer()));
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.querySelector('parsererror')) throw new Error("Failed to parse FictionBook XML structure");
+    if (doc.documentElement.localName !== 'FictionBook') throw new Error("This does not appear to be a FictionBook file.");
+
+    // Footnotes and comments live in extra bodies with a name attribute
+    const bodies = Array.from(doc.documentElement.children).filter(el => el.localName === 'body');
+    const body = bodies.find(el => !el.getAttribute('name')) || bodies[0];
+    if (!body) throw new Error("Invalid FB2: <body> missing");
+
+    const chapters: BookChapter[] = [];
+    const addChapter = (section: Element, text: string) => chapters.push({
+      title: getTitle(section) || `Section ${chapters.length + 1}`,
+      href: `#${section.getAttribute('id') || `section-${chapters.length + 1}`}`,
+      text,
+    });
+
+    // A book wrapped in a single top-level section is split at the next level. The wrapper's
+    // own content before its first subsection (title, epigraph, preface) becomes a chapter of its own.
+    let sections = childSections(body);
+    while (sections.length === 1 && childSections(sections[0]).length > 0) {
+      const wrapper = sections[0];
+      sections = childSections(wrapper);
+      const intro = extractSectionText(wrapper, sections[0]) || getTitle(wrapper);
+      if (intro) addChapter(wrapper, intro);
+    }
+
+    if (sections.length === 0) {
+      const text = extractSectionText(body);
+      if (text) chapters.push({ title: '', href: '', text });
+    }
+    for (const section of sections) {
+      const text = extractSectionText(section);
+      if (text) addChapter(section, text);
+    }
+
+    if (chapters.length === 0) {
+      throw new Error("No readable text content found in the book.");
+    }
+
+    const titleInfo = doc.querySelector('description > title-info');
+    return {
+      title: titleInfo?.querySelector('book-title')?.textContent?.trim() || file.name.replace(/\.fb2$/i, ''),
+      author: getAuthors(titleInfo),
+      language: titleInfo?.querySelector('lang')?.textContent?.trim() || '',
+      chapters,
+    };
+
+  } catch (e: any) {
+    console.error("FB2 Parsing Error:", e);
+    throw new Error(`Failed to process FB2: ${e.message}`);
+  }
+};
@@ -0,0 +1,125 @@
+import { GoogleGenAI, GenerateContentResponse, FinishReason } from "@google/genai";
+import { ProviderId, AVAILABLE_MODELS } from "../types";
+import { classifyError, withRetry, SafetyBlockError } from "./errorService";
+import { getApiKey } from "./apiKeyService";
+import type { LLMProvider, GenerationRequest } from "./llmProvider";
+
+const getApiClient = (): GoogleGenAI => {
+  const apiKey = getApiKey();
+  if (!apiKey) {
+    throw new Error("No Gemini API key set. Add one in the API key settings, or set GEMINI_API_KEY for the CLI and API server.");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+// Finish reasons that mean the response was cut off by content filtering
+const BLOCKED_FINISH_REASONS: string[] = [FinishReason.SAFETY, FinishReason.BLOCKLIST, FinishReason.PROHIBITED_CONTENT, FinishReason.SPII];
+
+// Helper to consume a response stream, accumulating its text.
+// Transient failures are retried with backoff; on abort, resolves with whatever
+// has been received so far.
+const accumulateStream = async (
+  openStream: () => Promise<AsyncGenerator<GenerateContentResponse>>,
+  onText?: (text: string) => void,
+  signal?: AbortSignal,
+  hooks: Pick<GenerationRequest, 'onRetry' | 'onUsage'> = {}
+): Promise<string> => {
+  let accumulated = '';
+  if (signal?.aborted) return accumulated;
+
+  try {
+    return await withRetry(async () => {
+      accumulated = '';
+      let usage: GenerateContentResponse['usageMetadata'];
+      const stream = await openStream();
+      for await (const chunk of stream) {
+        if (signal?.aborted) break;
+        if (chunk.usageMetadata) usage = chunk.usageMetadata;
+        const blockReason = chunk.promptFeedback?.blockReason;
+        const finishReason = chunk.candidates?.[0]?.finishReason;
+        if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+          throw new SafetyBlockError(`Response blocked (${blockReason || finishReason})`);
+        }
+        if (chunk.text) {
+          accumulated += chunk.text;
+          onText?.(accumulated);
+        }
+      }
+      // Thinking tokens are billed as output
+      if (usage) hooks.onUsage?.({
+        inputTokens: usage.promptTokenCount || 0,
+        outputTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0),
+      });
+      return accumulated;
+    }, '', { signal, onRetry: hooks.onRetry });
+  } catch (error: any) {
+    if (signal?.aborted) return accumulated;
+    console.error("Gemini API Error:", error);
+    throw classifyError(error);
+  }
+};
+
+export const geminiProvider: LLMProvider = {
+  id: ProviderId.GEMINI,
+  name: 'Google Gemini',
+  supportsInlineData: true,
+
+  streamText: async ({ modelId, systemInstruction, temperature, parts, responseSchema, onRetry, onUsage }, onText, signal) => {
+    const ai = getApiClient();
+    return accumulateStream(
+      () => ai.models.generateContentStream({
+        model: modelId,
+        config: {
+          systemInstruction,
+          temperature,
+          abortSignal: signal,
+          ...(responseSchema && { responseMimeType: 'application/json', responseSchema }),
+        },
+        contents: { parts },
+      }),
+      onText,
+      signal,
+      { onRetry, onUsage }
+    );
+  },
+
+  streamChat: async ({ modelId, systemInstruction, temperature, history, message }, onText, signal) => {
+    const ai = getApiClient();
+    const chat = ai.chats.create({
+      model: modelId,
+      config: { systemInstruction, temperature },
+      history: history.map(m => ({ role: m.role, parts: [{ text: m.text }] })),
+    });
+    return accumulateStream(
+      () => chat.sendMessageStream({ message, config: { abortSignal: signal } }),
+      onText,
+      signal
+    );
+  },
+
+  // The system instruction is counted as an extra text part
+  countTokens: async ({ modelId, systemInstruction, parts }) => {
+    const ai = getApiClient();
+    try {
+      const response = await ai.models.countTokens({
+        model: modelId,
+        contents: { parts: [{ text: systemInstruction }, ...parts] },
+      });
+      return response.totalTokens || 0;
+    } catch (error) {
+      throw classifyError(error);
+    }
+  },
+};
+
+// Check a key before saving it by fetching a model's metadata, which costs no tokens.
+// Throws a classified error (e.g. AuthError) when the key doesn't work.
+export const testApiKey = async (apiKey: string): Promise<void> => {
+  const model = AVAILABLE_MODELS.find(m => m.provider === ProviderId.GEMINI);
+  if (!model) throw new Error("No Gemini model is configured to test the key against.");
+  try {
+    await new GoogleGenAI({ apiKey }).models.get({ model: model.id });
+  } catch (error) {
+    throw classifyError(error);
+  }
+};
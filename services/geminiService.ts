@@ -1,7 +1,14 @@
-import { GoogleGenAI } from "@google/genai";
-import { SummaryMode } from "../types";
+import { SummaryMode, ModeDefinition, TokenUsage, BookImage } from "../types";
+import { splitIntoChunks, getChunkTokenBudget, estimateTokens } from "./chunkService";
+import { addUsage } from "./costService";
+import { getChapterTitles, getFigureIds } from "./epubService";
+import { LLMError, RetryOptions } from "./errorService";
+import { getProviderForModel, GenerationRequest, ContentPart, LLMProvider } from "./llmProvider";
+import { KNOWLEDGE_SCHEMA, parseKnowledgeDocument, mergeKnowledgeDocuments } from "./knowledgeService";
+import { STUDY_SCHEMA, parseStudyDeck, mergeStudyDecks } from "./studyService";
 
-const getSystemInstruction = (mode: SummaryMode): string => {
+// Prompts for the built-in modes (see BUILT_IN_MODES in modeService)
+export const getBuiltInPrompt = (mode: SummaryMode): string => {
   switch (mode) {
     case SummaryMode.HUMAN:
       return `You are a master editor. Your task is to summarize the provided ebook/document by ruthlessly removing non-important parts while preserving the core narrative and key insights.
@@ -39,11 +46,45 @@ const getSystemInstruction = (mode: SummaryMode): string => {
 
       GUIDELINES FOR CHAPTER-BY-CHAPTER:
       - **Sequential.** Follow the order of the text exactly.
-      - **Identify Chapters.** Look for "CHAPTER BREAK" markers or explicit chapter headings in the text to denote sections.
+      - **Identify Chapters.** Chapters may be separated by "CHAPTER BREAK" markers and introduced by a "CHAPTER: <title>" line giving the real chapter title; use that title verbatim. Otherwise, rely on explicit chapter headings in the text.
       - **Summarize.** For each chapter, write a concise summary (3-5 bullet points or a short paragraph) capturing the key events or arguments.
       - **Format.** Use H2 headers for Chapter Names/Numbers.
       - **Completeness.** Do not skip chapters. Ensure every section is represented.`;
 
+    case SummaryMode.KNOWLEDGE_JSON:
+      return `You are a knowledge extraction engine feeding downstream AI agents. Your task is to convert the provided ebook/document into a structured knowledge document.
+
+    GUIDELINES FOR KNOWLEDGE EXTRACTION:
+    - **Schema.** Respond with JSON only, matching the response schema exactly. No Markdown, no commentary.
+    - **Entities.** People, organizations, places, concepts and works that matter to the book, each with a type, a one-sentence description and the chapters where it appears.
+    - **Definitions.** Terms the book defines or relies on, with the definition as the book uses it.
+    - **Claims.** The book's key assertions and findings, with the evidence or example given for each.
+    - **Relations.** Causal relationships ("cause" leads to "effect"), with a short explanation.
+    - **Chapter references.** Chapters may be separated by "CHAPTER BREAK" markers and introduced by a "CHAPTER: <title>" line; use that title verbatim as the chapter reference. Use an empty string when the text has no chapters.
+    - **Faithful.** Extract only what the text states. Do not invent entities or claims.`;
+
+    case SummaryMode.STUDY:
+      return `You are an experienced teacher turning a non-fiction book into study material. Your task is to write flashcards and a multiple-choice quiz that test the reader's understanding of the provided ebook/document.
+
+    GUIDELINES FOR STUDY MATERIAL:
+    - **Per chapter.** Cover every chapter: 3-8 flashcards and 2-4 quiz questions each, depending on how much the chapter teaches.
+    - **Flashcards.** One idea per card. The question should be answerable from memory in a sentence; the answer should be short and self-contained.
+    - **Quiz questions.** 4 options each, exactly one correct. Wrong options should be plausible, not jokes. correctIndex is the 0-based index of the correct option. The explanation says why the answer is correct, citing the book.
+    - **Test understanding.** Prefer concepts, causes, and how to apply ideas over trivia such as dates or page numbers.
+    - **Chapter references.** Chapters may be separated by "CHAPTER BREAK" markers and introduced by a "CHAPTER: <title>" line; use that title verbatim as the chapter reference. Use an empty string when the text has no chapters.
+    - **Faithful.** Base every card and question only on what the text states.`;
+
+    case SummaryMode.RECAP:
+      return `You are a friend who has read the same novel and is catching a returning reader up. The provided text is EVERYTHING the reader has read so far; they have not read anything beyond it.
+
+    GUIDELINES FOR SPOILER-FREE RECAP:
+    - **No spoilers.** Only recap events and revelations contained in the provided text. Never foreshadow, hint at, or speculate about what happens later, even if you know this book. Do not say that something "will matter", "turns out" to be important, or is "the first sign" of anything.
+    - **Where things stand.** Finish with the situation at the stopping point: where the main characters are, what they want, and which questions are still open — as open questions, without answers.
+    - **Characters.** Briefly remind the reader who the important characters are and how they relate, as of the stopping point.
+    - **Structure.** Use headers for major story arcs or parts of the book, and keep events in reading order.
+    - **Incremental recaps.** If the input starts with a "RECAP SO FAR" section, the reader already knows that part: cover only what happened after it, referring back to it only for context.
+    - **Goal.** The reader should be able to pick the book back up immediately, without having anything that comes later revealed.`;
+
     case SummaryMode.MARKDOWN:
     default:
       return `You are a professional document digitization expert. Your task is to convert the provided ebook/document into a high-fidelity Markdown representation.
@@ -54,49 +95,280 @@ const getSystemInstruction = (mode: SummaryMode): string => {
     - **Formatting:** Ensure bold, italic, and other emphasis matches the source.
     - **Tables:** Convert tables into standard Markdown tables.
     - **Code:** Use fenced code blocks for any code snippets found.
-    - **Images:** You cannot render images, but describe them briefly in [italics in brackets] if they are critical to context.
+    - **Figures:** Where the text has a [FIGURE fig-N: caption] placeholder, keep the figure in place as \`![caption](figure:fig-N)\` on its own line. If the figure's image is attached, follow it with a brief description in *italics* when it is critical to context.
+    - **Other images:** You cannot see images without a placeholder, but describe them briefly in [italics in brackets] if they are critical to context.
     - **Goal:** The output should be a clean, structured Markdown file ready for a static site generator or documentation system.`;
   }
 };
 
+// Full system instruction for a mode: its prompt plus any output hints
+export const buildSystemInstruction = (mode: ModeDefinition): string => {
+  const hints = mode.outputHints.trim();
+  return hints ? `${mode.systemPrompt}\n\n    ADDITIONAL OUTPUT HINTS:\n    ${hints}` : mode.systemPrompt;
+};
+
+// JSON modes constrain the response to the schema of their document type
+const getResponseSchema = (mode: ModeDefinition) => {
+  if (mode.outputFormat !== 'json') return undefined;
+  return mode.jsonSchema === 'study' ? STUDY_SCHEMA : KNOWLEDGE_SCHEMA;
+};
+
+// Validate structured output and normalize its formatting. Incomplete JSON is useless,
+// so a stopped generation is reported as an error instead of a partial result.
+const finalizeStructuredOutput = (documents: string[], mode: ModeDefinition, signal?: AbortSignal): string => {
+  if (signal?.aborted) {
+    throw new Error("Generation stopped. Structured output is only kept when it is complete.");
+  }
+  if (documents.every(d => !d.trim())) throw new Error("No output generated.");
+  const merged = mode.jsonSchema === 'study'
+    ? mergeStudyDecks(documents.map(parseStudyDeck))
+    : mergeKnowledgeDocuments(documents.map(parseKnowledgeDocument));
+  return JSON.stringify(merged, null, 2);
+};
+
+// Instruction for the reduce pass: same output contract as the mode, but the input
+// is a sequence of partial outputs produced from consecutive parts of the book.
+const getReduceInstruction = (mode: ModeDefinition): string => `${buildSystemInstruction(mode)}
+
+    IMPORTANT - MERGE PASS:
+    - The input is NOT the original book. It is a series of partial outputs, each generated from a consecutive part of the same book, in reading order.
+    - Merge them into ONE coherent final output that follows the guidelines above.
+    - Remove duplication between parts and reconcile overlapping sections.
+    - Do not mention the parts, the merge process, or that the book was split.`;
+
+// Inline uploads (documents sent as-is, e.g. scanned PDFs) are limited by the request size
+const MAX_INLINE_DATA_MB = 20;
+
+export const INLINE_LIMIT_MESSAGE = `This file has no extractable text and exceeds the ${MAX_INLINE_DATA_MB}MB limit for direct upload.`;
+
+// Whether a file without extractable text is too large to be sent as-is
+export const exceedsInlineLimit = (bytes: number): boolean => bytes > MAX_INLINE_DATA_MB * 1024 * 1024;
+
+const ANALYZE_PROMPT = "Analyze this document and generate the output based on the system instructions. If the text contains [Page N] markers, cite page numbers where helpful.";
+
+const FIGURES_PROMPT = "Images of the figures marked by [FIGURE fig-N] placeholders in the text are attached, each after a \"Figure fig-N:\" label. Use them to understand diagrams, charts and tables. To show a figure in the output, write ![short caption](figure:fig-N) on its own line.";
+
+// Total size of the figure images attached to one request, leaving room for the text
+const MAX_FIGURES_MB = 15;
+
+export interface GenerationOptions {
+  // Called with the full text accumulated so far each time a streamed chunk arrives
+  onPartial?: (text: string) => void;
+  onProgress?: (progress: string) => void;
+  // Aborting stops the stream; the text received so far is returned instead of throwing
+  signal?: AbortSignal;
+  // Called with the token usage (and cost) summed over all requests made so far
+  onUsage?: (usage: TokenUsage) => void;
+  // Figures whose placeholders appear in the text; each is sent with the chunk that mentions it
+  figures?: BookImage[];
+}
+
+// Helper to build the parts attaching the figures a chunk mentions, each after a label with its id.
+// Providers without inline data support get the text and its placeholders only.
+const getFigureParts = (text: string, provider: LLMProvider, figures?: BookImage[]): ContentPart[] => {
+  if (!figures?.length || !provider.supportsInlineData) return [];
+  const byId = new Map(figures.map(figure => [figure.id, figure]));
+  const parts: ContentPart[] = [];
+  let bytes = 0;
+  for (const id of getFigureIds(text)) {
+    const figure = byId.get(id);
+    if (!figure) continue;
+    bytes += (figure.data.length * 3) / 4;
+    if (bytes > MAX_FIGURES_MB * 1024 * 1024) break;
+    parts.push({ text: `Figure ${id}:` }, { inlineData: { data: figure.data, mimeType: figure.mimeType } });
+  }
+  return parts.length > 0 ? [...parts, { text: FIGURES_PROMPT }] : [];
+};
+
+// Helper to sum usage over the requests of one generation
+const trackUsage = (modelId: string, onUsage?: (usage: TokenUsage) => void): GenerationRequest['onUsage'] => {
+  let total: TokenUsage | undefined;
+  return onUsage && ((usage) => {
+    total = addUsage(total, usage, modelId);
+    onUsage(total);
+  });
+};
+
+// Helper to report retries of transient failures on the progress line
+const reportRetries = (onProgress?: (progress: string) => void): RetryOptions['onRetry'] =>
+  onProgress && ((error, delayMs, attempt) => onProgress(
+    `${error.kind === 'rate-limit' ? 'Rate limited' : 'Connection problem'}. Retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1})...`
+  ));
+
+// Helper to name the part of the book a chunk covers, for error messages
+const describeChunk = (chunk: string, index: number, total: number): string => {
+  const titles = getChapterTitles(chunk);
+  if (titles.length === 1) return `chapter "${titles[0]}"`;
+  if (titles.length > 1) return `chapters "${titles[0]}" to "${titles[titles.length - 1]}"`;
+  return `part ${index + 1} of ${total}`;
+};
+
 export const generateSummary = async (
   base64Data: string,
   mimeType: string,
-  mode: SummaryMode,
-  modelId: string
+  mode: ModeDefinition,
+  modelId: string,
+  options: GenerationOptions = {}
 ): Promise<string> => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API_KEY not found in environment variables");
+  const provider = getProviderForModel(modelId);
+  if (!provider.supportsInlineData) {
+    throw new Error(`${provider.name} models cannot read ${mimeType} files directly. Please upload an EPUB or TXT file.`);
+  }
+  if (exceedsInlineLimit(base64Data.length * 0.75)) {
+    throw new Error(INLINE_LIMIT_MESSAGE);
   }
 
-  const ai = new GoogleGenAI({ apiKey });
-
-  try {
-    const response = await ai.models.generateContent({
-      model: modelId,
-      config: {
-        systemInstruction: getSystemInstruction(mode),
-        temperature: mode === SummaryMode.HUMAN ? 0.3 : 0.1, // Lower temp for Agent/Markdown accuracy
-      },
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              data: base64Data,
-              mimeType: mimeType,
-            },
-          },
-          {
-            text: "Analyze this document and generate the output based on the system instructions.",
+  options.onProgress?.(`Generating output with ${provider.name}...`);
+  const output = await provider.streamText(
+    {
+      modelId,
+      systemInstruction: buildSystemInstruction(mode),
+      temperature: mode.temperature,
+      responseSchema: getResponseSchema(mode),
+      onRetry: reportRetries(options.onProgress),
+      onUsage: trackUsage(modelId, options.onUsage),
+      parts: [
+        {
+          inlineData: {
+            data: base64Data,
+            mimeType: mimeType,
           },
-        ],
+        },
+        {
+          text: ANALYZE_PROMPT,
+        },
+      ],
+    },
+    options.onPartial,
+    options.signal
+  );
+
+  if (mode.outputFormat === 'json') return finalizeStructuredOutput([output], mode, options.signal);
+  return output || (options.signal?.aborted ? "" : "No output generated.");
+};
+
+// Helper to group partial outputs into consecutive batches that each fit one merge request.
+// A batch takes at least two partials (only a leftover last one stands alone), so every
+// merge round shrinks the list.
+const batchPartials = (partials: string[], maxTokens: number): string[][] => {
+  const batches: string[][] = [];
+  let current: string[] = [];
+  let tokens = 0;
+  for (const partial of partials) {
+    const size = estimateTokens(partial);
+    if (current.length >= 2 && tokens + size > maxTokens) {
+      batches.push(current);
+      current = [];
+      tokens = 0;
+    }
+    current.push(partial);
+    tokens += size;
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
+};
+
+// Map-reduce summarization for extracted text that may exceed the model context.
+// Map: each chunk is processed with the selected mode. Reduce: partial outputs are merged
+// into a single result (conversion modes like MARKDOWN concatenate their parts instead),
+// in rounds of batches that fit the model's budget when they don't fit one request.
+export const generateChunkedSummary = async (
+  text: string,
+  mode: ModeDefinition,
+  modelId: string,
+  options: GenerationOptions = {}
+): Promise<string> => {
+  const { onPartial, onProgress, signal } = options;
+  const provider = getProviderForModel(modelId);
+  const chunks = splitIntoChunks(text, getChunkTokenBudget(modelId));
+  const systemInstruction = buildSystemInstruction(mode);
+  const temperature = mode.temperature;
+  const responseSchema = getResponseSchema(mode);
+  const onRetry = reportRetries(onProgress);
+  const onUsage = trackUsage(modelId, options.onUsage);
+  const emptyResult = () => (signal?.aborted ? "" : "No output generated.");
+
+  if (chunks.length === 1) {
+    onProgress?.(`Generating output with ${provider.name}...`);
+    const output = await provider.streamText(
+      {
+        modelId, systemInstruction, temperature, responseSchema, onRetry, onUsage,
+        parts: [{ text: chunks[0] }, ...getFigureParts(chunks[0], provider, options.figures), { text: ANALYZE_PROMPT }],
       },
-    });
+      onPartial, signal
+    );
+    if (responseSchema) return finalizeStructuredOutput([output], mode, signal);
+    return output || emptyResult();
+  }
+
+  // During the map phase the live preview shows the finished parts followed by the one in flight
+  const partials: string[] = [];
+  for (let i = 0; i < chunks.length; i++) {
+    if (signal?.aborted) break;
+    onProgress?.(`Processing chunk ${i + 1}/${chunks.length}...`);
+    let partial: string;
+    try {
+      partial = await provider.streamText(
+        {
+          modelId, systemInstruction, temperature, responseSchema, onRetry, onUsage,
+          parts: [
+            { text: chunks[i] },
+            ...getFigureParts(chunks[i], provider, options.figures),
+            { text: `This is part ${i + 1} of ${chunks.length} of a longer document. Generate the output for this part only, based on the system instructions. If the text contains [Page N] markers, cite page numbers where helpful.` },
+          ],
+        },
+        onPartial && ((current) => onPartial([...partials, current].join("\n\n"))),
+        signal
+      );
+    } catch (error) {
+      if (error instanceof LLMError) error.location = describeChunk(chunks[i], i, chunks.length);
+      throw error;
+    }
+    if (partial.trim()) partials.push(partial.trim());
+  }
+
+  // Structured parts are merged client-side rather than by another model pass
+  if (responseSchema) return finalizeStructuredOutput(partials, mode, signal);
+
+  if (partials.length === 0) return emptyResult();
+
+  if (mode.concatenateChunks || signal?.aborted) {
+    return partials.join("\n\n");
+  }
 
-    return response.text || "No output generated.";
-  } catch (error: any) {
-    console.error("Gemini API Error:", error);
-    throw new Error(error.message || "Failed to process document");
+  const budget = getChunkTokenBudget(modelId);
+  let level = partials;
+  for (let round = 1; level.length > 1; round++) {
+    const batches = batchPartials(level, budget);
+    const merged: string[] = [];
+    for (let j = 0; j < batches.length; j++) {
+      const batch = batches[j];
+      // A leftover partial is carried into the next round as it is
+      if (batch.length === 1) {
+        merged.push(batch[0]);
+        continue;
+      }
+      const isFinal = batches.length === 1;
+      onProgress?.(isFinal
+        ? `Merging ${batch.length} partial results...`
+        : `Merging partial results (round ${round}, batch ${j + 1}/${batches.length})...`);
+      const output = await provider.streamText(
+        {
+          modelId, systemInstruction: getReduceInstruction(mode), temperature, onRetry, onUsage,
+          parts: [
+            { text: batch.map((p, i) => `=== PART ${i + 1} OF ${batch.length} ===\n\n${p}`).join("\n\n") },
+            { text: "Merge these partial outputs into the final output based on the system instructions." },
+          ],
+        },
+        isFinal ? onPartial : undefined, signal
+      );
+      // A merge stopped before producing anything still leaves the unmerged parts as a usable result
+      if (signal?.aborted) {
+        return [...merged, output || batch.join("\n\n"), ...batches.slice(j + 1).flat()].join("\n\n");
+      }
+      merged.push(output.trim() || batch.join("\n\n"));
+    }
+    level = merged;
   }
+  return level[0];
 };
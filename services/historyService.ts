@@ -1,30 +1,144 @@
 import { SummaryResult } from '../types';
 
-const STORAGE_KEY = 'gemini_ebook_lens_history';
+const DB_NAME = 'gemini_ebook_lens';
+const STORE_NAME = 'history';
 
-export const getHistory = (): SummaryResult[] => {
+// Bump when the object store layout changes and add a step to the upgrade handler.
+// v1: `history` store keyed by id, indexed by timestamp (migrated from localStorage)
+// v2: `contentHash` index for reusing earlier results
+const DB_VERSION = 2;
+
+// Pre-IndexedDB storage, imported once on first open and then removed
+const LEGACY_STORAGE_KEY = 'gemini_ebook_lens_history';
+
+export interface StorageUsage {
+  usage: number; // Bytes used by this origin
+  quota: number; // Bytes available to this origin
+}
+
+// Helper to await an IDBRequest
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Helper to await the end of a transaction (writes are only durable once it completes)
+const promisifyTransaction = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+
+const migrateFromLocalStorage = (store: IDBObjectStore) => {
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    return stored ? JSON.parse(stored) : [];
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!stored) return;
+    const items: SummaryResult[] = JSON.parse(stored);
+    items.forEach(item => store.put(item));
+    store.transaction.addEventListener('complete', () => localStorage.removeItem(LEGACY_STORAGE_KEY));
+  } catch (e) {
+    // Keep the legacy key so nothing is lost; the store just starts empty
+    console.error("Failed to migrate history from localStorage", e);
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+        migrateFromLocalStorage(store);
+      }
+      if (event.oldVersion < 2) {
+        request.transaction!.objectStore(STORE_NAME).createIndex('contentHash', 'contentHash');
+      }
+    };
+
+    request.onsuccess = () => {
+      // Ask the browser not to evict history under storage pressure (best effort)
+      navigator.storage?.persist?.().catch(() => undefined);
+      resolve(request.result);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+// Newest first
+export const getHistory = async (): Promise<SummaryResult[]> => {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    const items = await promisifyRequest<SummaryResult[]>(tx.objectStore(STORE_NAME).index('timestamp').getAll());
+    return items.reverse();
   } catch (e) {
     console.error("Failed to load history", e);
     return [];
   }
 };
 
-export const saveHistoryItem = (item: SummaryResult): SummaryResult[] => {
+// Newest complete result generated from the same content, mode, model and prompt.
+// The cache is best effort, so lookup failures count as a miss.
+export const findCachedResult = async (contentHash: string): Promise<SummaryResult | null> => {
+  // History lives in the browser; there is none outside it (e.g. in the CLI and API server)
+  if (typeof indexedDB === 'undefined') return null;
   try {
-    const current = getHistory();
-    // Prepend new item, limit to 20 items to keep storage light
-    const updated = [item, ...current].slice(0, 20);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
-    return updated;
+    const db = await openDb();
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    const items = await promisifyRequest<SummaryResult[]>(tx.objectStore(STORE_NAME).index('contentHash').getAll(contentHash));
+    return items.filter(item => !item.isPartial).sort((a, b) => b.timestamp - a.timestamp)[0] || null;
   } catch (e) {
-    console.error("Failed to save history", e);
-    return getHistory();
+    console.error("Failed to look up cached result", e);
+    return null;
   }
 };
 
-export const clearHistory = (): void => {
-    localStorage.removeItem(STORAGE_KEY);
-};
\ No newline at end of file
+// Rejects if the item could not be stored (e.g. quota exceeded) so the caller can tell the user
+export const saveHistoryItem = async (item: SummaryResult): Promise<SummaryResult[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  tx.objectStore(STORE_NAME).put(item);
+  await promisifyTransaction(tx);
+  return getHistory();
+};
+
+export const deleteHistoryItem = async (id: string): Promise<SummaryResult[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  tx.objectStore(STORE_NAME).delete(id);
+  await promisifyTransaction(tx);
+  return getHistory();
+};
+
+export const clearHistory = async (): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  tx.objectStore(STORE_NAME).clear();
+  await promisifyTransaction(tx);
+};
+
+// Origin-wide estimate from the Storage API; null where unsupported
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+  } catch (e) {
+    console.error("Failed to estimate storage usage", e);
+    return null;
+  }
+};
@@ -0,0 +1,77 @@
+import { ParsedBook, BookChapter } from '../types';
+import { extractReadableText } from './markupService';
+import { TextBlock, groupIntoChapters } from './chapterService';
+
+// Stands in for a heading in extracted text; the number is the heading's index
+const headingToken = (index: number) => `\u0001${index}\u0001`;
+
+// Helper to decode markup using the charset it declares (XML prolog or meta tag).
+// FB2 and older HTML files are often windows-1251/1252 rather than UTF-8.
+export const decodeMarkup = (bytes: Uint8Array): string => {
+  const head = new TextDecoder('latin1').decode(bytes.subarray(0, 1024));
+  const declared = head.match(/encoding=["']([\w.:-]+)["']/i)?.[1] || head.match(/charset=["']?([\w.:-]+)/i)?.[1];
+  try {
+    return new TextDecoder(declared || 'utf-8').decode(bytes);
+  } catch {
+    // Unknown charset label
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+};
+
+// Split an HTML document into chapters at its headings (see groupIntoChapters).
+// Headings are swapped for tokens so the shared EPUB text extraction can be reused.
+export const htmlToChapters = (doc: Document): BookChapter[] => {
+  const headings = Array.from(doc.querySelectorAll('h1, h2, h3, h4, h5, h6')).map(el => {
+    const heading = {
+      level: Number(el.tagName[1]),
+      title: (el.textContent || '').replace(/\s+/g, ' ').trim(),
+      id: el.id || undefined,
+    };
+    return { el, heading };
+  });
+  headings.forEach(({ el }, index) => {
+    const token = doc.createElement('p');
+    token.textContent = headingToken(index);
+    el.replaceWith(token);
+  });
+
+  const blocks: TextBlock[] = [];
+  extractReadableText(doc).split(/\u0001(\d+)\u0001/).forEach((part, i) => {
+    // split() with a capture group alternates text and heading indexes
+    if (i % 2 === 0) {
+      blocks.push({ text: part });
+    } else {
+      const { heading } = headings[Number(part)];
+      blocks.push({ text: heading.title, heading });
+    }
+  });
+  return groupIntoChapters(blocks);
+};
+
+// Single-file HTML (e.g. a saved web page or a book exported as one page)
+export const parseHtml = async (file: File): Promise<ParsedBook> => {
+  try {
+    const html = decodeMarkup(new Uint8Array(await file.arrayBuffer()));
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+
+    const title = doc.querySelector('title')?.textContent?.trim() || doc.querySelector('h1')?.textContent?.replace(/\s+/g, ' ').trim();
+    const author = doc.querySelector('meta[name="author"]')?.getAttribute('content')?.trim();
+    const language = doc.documentElement.getAttribute('lang') || doc.documentElement.getAttribute('xml:lang');
+
+    const chapters = htmlToChapters(doc);
+    if (chapters.length === 0) {
+      throw new Error("No readable text content found in the page.");
+    }
+
+    return {
+      title: title || file.name.replace(/\.x?html?$/i, ''),
+      author: author || '',
+      language: language || '',
+      chapters,
+    };
+
+  } catch (e: any) {
+    console.error("HTML Parsing Error:", e);
+    throw new Error(`Failed to process HTML: ${e.message}`);
+  }
+};
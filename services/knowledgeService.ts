@@ -0,0 +1,134 @@
+import { Schema, Type } from "@google/genai";
+import { KnowledgeDocument } from "../types";
+
+const stringField: Schema = { type: Type.STRING };
+
+// Response schema for the KNOWLEDGE_JSON mode, mirroring the KnowledgeDocument type
+export const KNOWLEDGE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: stringField,
+    entities: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: stringField,
+          type: stringField,
+          description: stringField,
+          chapters: { type: Type.ARRAY, items: stringField },
+        },
+        required: ['name', 'type', 'description', 'chapters'],
+      },
+    },
+    definitions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { term: stringField, definition: stringField, chapter: stringField },
+        required: ['term', 'definition', 'chapter'],
+      },
+    },
+    claims: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { statement: stringField, evidence: stringField, chapter: stringField },
+        required: ['statement', 'evidence', 'chapter'],
+      },
+    },
+    relations: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { cause: stringField, effect: stringField, explanation: stringField, chapter: stringField },
+        required: ['cause', 'effect', 'explanation', 'chapter'],
+      },
+    },
+  },
+  required: ['title', 'entities', 'definitions', 'claims', 'relations'],
+  propertyOrdering: ['title', 'entities', 'definitions', 'claims', 'relations'],
+};
+
+// Check a value against a schema node; returns the first problem found
+export const findSchemaError = (value: unknown, schema: Schema, path: string): string | null => {
+  switch (schema.type) {
+    case Type.STRING:
+      return typeof value === 'string' ? null : `${path} should be a string`;
+
+    case Type.INTEGER:
+      return Number.isInteger(value) ? null : `${path} should be an integer`;
+
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) return `${path} should be an array`;
+      for (let i = 0; i < value.length; i++) {
+        const error = findSchemaError(value[i], schema.items!, `${path}[${i}]`);
+        if (error) return error;
+      }
+      return null;
+    }
+
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return `${path} should be an object`;
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (!(key in record)) return `${path}.${key} is missing`;
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        if (key in record) {
+          const error = findSchemaError(record[key], propertySchema, `${path}.${key}`);
+          if (error) return error;
+        }
+      }
+      return null;
+    }
+
+    default:
+      return null;
+  }
+};
+
+// Parse JSON model output, throwing a readable error when it is malformed
+export const parseJsonOutput = (text: string): unknown => {
+  try {
+    // Some OpenAI-compatible servers wrap JSON output in a Markdown code fence
+    return JSON.parse(text.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch (e: any) {
+    throw new Error(`The model returned invalid JSON: ${e.message}`);
+  }
+};
+
+// Parse and validate model output. Throws an error describing the first problem
+// so a malformed response surfaces as a readable message instead of a broken view.
+export const parseKnowledgeDocument = (text: string): KnowledgeDocument => {
+  const value = parseJsonOutput(text);
+  const error = findSchemaError(value, KNOWLEDGE_SCHEMA, 'document');
+  if (error) {
+    throw new Error(`The model's knowledge document failed validation: ${error}.`);
+  }
+  return value as KnowledgeDocument;
+};
+
+// Combine documents generated from consecutive parts of a book. Entities with the
+// same name are merged; everything else is concatenated in reading order.
+export const mergeKnowledgeDocuments = (documents: KnowledgeDocument[]): KnowledgeDocument => {
+  const entities = new Map<string, KnowledgeDocument['entities'][number]>();
+  for (const entity of documents.flatMap(d => d.entities)) {
+    const key = entity.name.trim().toLowerCase();
+    const existing = entities.get(key);
+    if (existing) {
+      existing.chapters = Array.from(new Set([...existing.chapters, ...entity.chapters]));
+      if (entity.description.length > existing.description.length) existing.description = entity.description;
+    } else {
+      entities.set(key, { ...entity, chapters: [...entity.chapters] });
+    }
+  }
+
+  return {
+    title: documents.find(d => d.title)?.title || '',
+    entities: Array.from(entities.values()),
+    definitions: documents.flatMap(d => d.definitions),
+    claims: documents.flatMap(d => d.claims),
+    relations: documents.flatMap(d => d.relations),
+  };
+};
@@ -0,0 +1,61 @@
+import type { Schema } from '@google/genai';
+import type { RetryOptions } from './errorService';
+import { ProviderId, ChatMessage, TokenUsage, AVAILABLE_MODELS } from '../types';
+import { geminiProvider } from './geminiProvider';
+import { openAiCompatibleProvider } from './openAiCompatibleProvider';
+
+export type ContentPart =
+  | { text: string }
+  | { inlineData: { data: string; mimeType: string } };
+
+export interface GenerationRequest {
+  modelId: string;
+  systemInstruction: string;
+  temperature: number;
+  parts: ContentPart[];
+  responseSchema?: Schema; // When set, the response is JSON matching this schema
+  onRetry?: RetryOptions['onRetry']; // Called before each retry of a transient failure
+  onUsage?: (usage: TokenUsage) => void; // Called once the request's token usage is known
+}
+
+export interface ChatRequest {
+  modelId: string;
+  systemInstruction: string;
+  temperature: number;
+  history: ChatMessage[]; // Previous turns, oldest first
+  message: string;
+}
+
+// A backend capable of running generation and multi-turn chat requests.
+// Implementations stream the output and, on abort, resolve with the text received so far.
+export interface LLMProvider {
+  id: ProviderId;
+  name: string;
+  // Whether binary documents (e.g. PDF) can be sent as inlineData parts
+  supportsInlineData: boolean;
+  streamText: (
+    request: GenerationRequest,
+    onText?: (text: string) => void,
+    signal?: AbortSignal
+  ) => Promise<string>;
+  streamChat: (
+    request: ChatRequest,
+    onText?: (text: string) => void,
+    signal?: AbortSignal
+  ) => Promise<string>;
+  // Exact input token count for a request; providers without a counting endpoint omit it
+  countTokens?: (request: GenerationRequest) => Promise<number>;
+}
+
+const PROVIDERS: Record<ProviderId, LLMProvider> = {
+  [ProviderId.GEMINI]: geminiProvider,
+  [ProviderId.OPENAI_COMPATIBLE]: openAiCompatibleProvider,
+};
+
+export const getProvider = (id: ProviderId): LLMProvider => PROVIDERS[id];
+
+export const getProviderForModel = (modelId: string): LLMProvider => {
+  const model = AVAILABLE_MODELS.find(m => m.id === modelId);
+  if (!model) throw new Error(`Unknown model: ${modelId}`);
+  return getProvider(model.provider);
+};
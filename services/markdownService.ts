@@ -0,0 +1,85 @@
+import { ParsedBook } from '../types';
+import { TextBlock, groupIntoChapters } from './chapterService';
+
+// Helper to read simple `key: value` pairs from YAML front matter
+const parseFrontMatter = (yaml: string): Record<string, string> => {
+  const fields: Record<string, string> = {};
+  for (const line of yaml.split('\n')) {
+    const match = line.match(/^(\w+):\s*(.+)$/);
+    if (match) fields[match[1].toLowerCase()] = match[2].trim().replace(/^(["'])(.*)\1$/, '$2');
+  }
+  return fields;
+};
+
+// Helper to split Markdown into paragraphs and ATX/setext headings, ignoring
+// heading-like lines inside fenced code blocks. Body text is kept as Markdown.
+const toBlocks = (markdown: string): TextBlock[] => {
+  const blocks: TextBlock[] = [];
+  let paragraph: string[] = [];
+  let fence: string | null = null;
+
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push({ text: paragraph.join('\n') });
+    paragraph = [];
+  };
+  const addHeading = (level: number, title: string, line: string) => {
+    flush();
+    blocks.push({ text: line, heading: { level, title: title.replace(/[*_`]/g, '').trim() } });
+  };
+
+  for (const line of markdown.split('\n')) {
+    const fenceMatch = line.match(/^ {0,3}(`{3,}|~{3,})/);
+    if (fence) {
+      paragraph.push(line);
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) fence = null;
+      continue;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      paragraph.push(line);
+      continue;
+    }
+
+    const atx = line.match(/^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/);
+    const setext = line.match(/^ {0,3}(=+|-+)\s*$/);
+    if (atx) {
+      addHeading(atx[1].length, atx[2], line);
+    } else if (setext && paragraph.length === 1) {
+      // A single text line underlined with = or - (longer paragraphs make "---" a rule)
+      const title = paragraph[0];
+      paragraph = [];
+      addHeading(setext[1][0] === '=' ? 1 : 2, title, `${title}\n${line}`);
+    } else if (!line.trim()) {
+      flush();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+
+  return blocks;
+};
+
+export const parseMarkdown = async (file: File): Promise<ParsedBook> => {
+  let text = (await file.text()).replace(/\r\n?/g, '\n');
+  if (!text.trim()) throw new Error("The Markdown file is empty.");
+
+  let meta: Record<string, string> = {};
+  const frontMatter = text.match(/^---\n([\s\S]*?)\n(?:---|\.\.\.)\n/);
+  if (frontMatter) {
+    meta = parseFrontMatter(frontMatter[1]);
+    text = text.slice(frontMatter[0].length);
+  }
+
+  const blocks = toBlocks(text);
+  const firstHeading = blocks.find(block => block.heading?.level === 1)?.heading?.title;
+  const chapters = groupIntoChapters(blocks);
+  if (chapters.length === 0) throw new Error("The Markdown file has headings but no text.");
+
+  return {
+    title: meta.title || firstHeading || file.name.replace(/\.(md|markdown)$/i, ''),
+    author: meta.author || '',
+    language: meta.lang || meta.language || '',
+    chapters,
+  };
+};
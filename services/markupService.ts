@@ -0,0 +1,218 @@
+import { Parser } from 'htmlparser2';
+import { ChildNode, DomHandler, isCDATA, isTag, isText } from 'domhandler';
+
+// Parses (X)HTML and XML for reading EPUBs in the book worker, where DOMParser is not
+// available. htmlparser2's tree is turned into one with the same shape as the DOM's
+// (nodeType, childNodes, tagName, getAttribute...), so the text extraction below walks either one.
+
+export const ELEMENT_NODE = 1;
+export const TEXT_NODE = 3;
+const DOCUMENT_NODE = 9;
+
+// The parts of a node the text extraction uses; DOM nodes have them too
+export interface MarkupNode {
+  nodeType: number;
+  textContent: string | null;
+  childNodes: ArrayLike<MarkupNode>;
+}
+
+export interface MarkupElement extends MarkupNode {
+  tagName: string;
+  localName: string; // Without the namespace prefix in XML; lowercase in HTML
+  namespaceURI?: string | null; // Only resolved for XML
+  getAttribute: (name: string) => string | null;
+}
+
+export interface MarkupDocument extends MarkupNode {
+  documentElement: MarkupElement | null;
+  body?: MarkupElement | null;
+}
+
+export interface ParsedMarkup extends MarkupDocument {
+  parseError: string | null; // Set for XML that is not well-formed; the tree is still built
+}
+
+interface ParsedElement extends MarkupElement {
+  childNodes: MarkupNode[];
+}
+
+export type MarkupType = 'text/html' | 'application/xml';
+
+const createText = (value: string): MarkupNode => ({ nodeType: TEXT_NODE, textContent: value, childNodes: [] });
+
+const createElement = (tagName: string, localName: string, attributes: Record<string, string>, namespaceURI: string | null): ParsedElement => {
+  const element: ParsedElement = {
+    nodeType: ELEMENT_NODE,
+    tagName,
+    localName,
+    namespaceURI,
+    childNodes: [],
+    getAttribute: (name) => attributes[name] ?? null,
+    get textContent() {
+      return element.childNodes.map(child => child.textContent).join('');
+    },
+  };
+  return element;
+};
+
+// Helper to copy htmlparser2's nodes into MarkupNodes, resolving XML namespace prefixes
+// against the xmlns attributes in scope. Comments and processing instructions are dropped.
+const convertNodes = (nodes: ChildNode[], xml: boolean, namespaces: Record<string, string>): MarkupNode[] => {
+  const converted: MarkupNode[] = [];
+  for (const node of nodes) {
+    if (isText(node)) {
+      converted.push(createText(node.data));
+    } else if (isCDATA(node)) {
+      converted.push(...convertNodes(node.children, xml, namespaces));
+    } else if (isTag(node)) {
+      if (!xml) {
+        const element = createElement(node.name, node.name, node.attribs, null);
+        element.childNodes = convertNodes(node.children, xml, namespaces);
+        converted.push(element);
+        continue;
+      }
+      const scope = { ...namespaces };
+      for (const [name, value] of Object.entries(node.attribs)) {
+        if (name === 'xmlns') scope[''] = value;
+        else if (name.startsWith('xmlns:')) scope[name.slice(6)] = value;
+      }
+      const colon = node.name.indexOf(':');
+      const prefix = colon > 0 ? node.name.slice(0, colon) : '';
+      const element = createElement(node.name, node.name.slice(colon + 1), node.attribs, scope[prefix] || null);
+      element.childNodes = convertNodes(node.children, xml, scope);
+      converted.push(element);
+    }
+  }
+  return converted;
+};
+
+// Parse markup into a DOM-shaped tree. 'text/html' is lenient like the browser's HTML
+// parser; 'application/xml' keeps the case of names and resolves namespaces.
+export const parseMarkup = (source: string, type: MarkupType): ParsedMarkup => {
+  const html = type === 'text/html';
+  const text = source.replace(/^\uFEFF/, '');
+  let parseError: string | null = null;
+
+  // htmlparser2 closes elements for us; in XML, any it had to close without a
+  // self-closing "/>" were never closed in the source
+  const handler = new DomHandler(null, { xmlMode: !html });
+  const closeTag = handler.onclosetag.bind(handler);
+  const parser = new Parser(Object.assign(handler, {
+    onclosetag: (name: string, isImplied: boolean) => {
+      if (!html && isImplied && text[parser.endIndex - 1] !== '/') parseError ||= `Unclosed element <${name}>`;
+      closeTag();
+    },
+  }), { xmlMode: !html, recognizeCDATA: !html });
+  parser.end(text);
+
+  const topLevel = convertNodes(handler.root.children, !html, {});
+  const elements = topLevel.filter((node): node is ParsedElement => node.nodeType === ELEMENT_NODE);
+  let documentElement: ParsedElement | null = elements[0] || null;
+  if (!html && !documentElement) parseError ||= "No root element";
+
+  // Like the HTML parser, give HTML without a single <html> root one
+  const strayText = topLevel.some(node => node.nodeType === TEXT_NODE && node.textContent!.trim());
+  if (html && (elements.length !== 1 || documentElement!.localName !== 'html' || strayText)) {
+    documentElement = createElement('html', 'html', {}, null);
+    documentElement.childNodes.push(...topLevel);
+  }
+
+  return {
+    nodeType: DOCUMENT_NODE,
+    textContent: null,
+    childNodes: documentElement ? [documentElement] : [],
+    documentElement,
+    body: html && documentElement ? findElement(documentElement, 'body') : null,
+    parseError,
+  };
+};
+
+// Helper to list the elements under a node that match, in document order
+const collectElements = (root: MarkupNode, matches: (el: MarkupElement) => boolean): MarkupElement[] => {
+  const found: MarkupElement[] = [];
+  const visit = (node: MarkupNode) => {
+    for (let i = 0; i < node.childNodes.length; i++) {
+      const child = node.childNodes[i];
+      if (child.nodeType !== ELEMENT_NODE) continue;
+      if (matches(child as MarkupElement)) found.push(child as MarkupElement);
+      visit(child);
+    }
+  };
+  visit(root);
+  return found;
+};
+
+export const findElements = (root: MarkupNode, localName: string): MarkupElement[] =>
+  collectElements(root, el => el.localName === localName);
+
+export const findElement = (root: MarkupNode, localName: string): MarkupElement | null => findElements(root, localName)[0] || null;
+
+// Helper to list an element's child elements with a local name
+export const getChildElements = (parent: MarkupNode, localName: string): MarkupElement[] =>
+  Array.from(parent.childNodes).filter((child): child is MarkupElement =>
+    child.nodeType === ELEMENT_NODE && (child as MarkupElement).localName === localName);
+
+// Helper to extract text with better formatting preservation
+// Walks the DOM tree and inserts newlines for block-level elements.
+// `onImage` receives each image reference and returns the text to put in its place.
+export const extractReadableText = (doc: MarkupDocument, onImage?: (src: string, alt: string) => string): string => {
+  const walk = (node: MarkupNode): string => {
+    if (node.nodeType === TEXT_NODE) {
+      return node.textContent || '';
+    }
+
+    if (node.nodeType === ELEMENT_NODE) {
+      const el = node as MarkupElement;
+      const tag = el.tagName.toLowerCase();
+
+      // Images (including raster images wrapped in SVG) keep their position as a marker
+      if (onImage && (tag === 'img' || tag === 'svg')) {
+        const image = tag === 'img' ? el : findElement(el, 'image');
+        const src = image?.getAttribute('src') || image?.getAttribute('href') || image?.getAttribute('xlink:href');
+        const alt = (el.getAttribute('alt') || el.getAttribute('title') || findElement(el, 'title')?.textContent || '').replace(/\s+/g, ' ').trim();
+        return src ? `\n${onImage(src, alt)}\n` : '';
+      }
+
+      // Skip non-content tags
+      if (['script', 'style', 'svg', 'noscript', 'meta', 'link', 'head'].includes(tag)) {
+        return '';
+      }
+
+      let content = '';
+      const childNodes = Array.from(node.childNodes);
+      for (const child of childNodes) {
+        content += walk(child);
+      }
+
+      // Clean up internal whitespace: collapse tabs/newlines into single space
+      content = content.replace(/[\t\r\n]+/g, ' ');
+
+      // Add structure based on tags
+      // Block elements: Surround with newlines
+      if (['p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'blockquote', 'section', 'article', 'main', 'header', 'footer'].includes(tag)) {
+        return `\n${content.trim()}\n`;
+      }
+      // Explicit Line breaks
+      if (tag === 'br') return '\n';
+      // Table rows
+      if (tag === 'tr') return `\n${content.trim()}`;
+      // Table cells
+      if (tag === 'td' || tag === 'th') return ` ${content.trim()} `;
+
+      return content;
+    }
+    return '';
+  };
+
+  // Walk the body
+  const rawText = walk(doc.body || doc.documentElement!);
+
+  // Final Cleanup: Normalize multiple newlines to max 2 to preserve paragraph separation without massive gaps
+  return rawText.replace(/\n{3,}/g, '\n\n').trim();
+};
+
+// Helper to pick a title for a spine item that has no TOC entry
+export const findHeading = (doc: MarkupNode): string => {
+  const heading = collectElements(doc, el => ['h1', 'h2', 'h3'].includes(el.localName))[0] || findElement(doc, 'title');
+  return heading?.textContent?.replace(/\s+/g, ' ').trim() || '';
+};
@@ -0,0 +1,205 @@
+import { ParsedBook, BookChapter } from '../types';
+import { extractReadableText, findHeading } from './markupService';
+import { htmlToChapters } from './htmlService';
+
+// PalmDOC header (start of record 0)
+const NO_COMPRESSION = 1;
+const PALMDOC_COMPRESSION = 2;
+const HUFF_CDIC_COMPRESSION = 17480;
+
+// EXTH metadata record types
+const EXTH_AUTHOR = 100;
+const EXTH_UPDATED_TITLE = 503;
+const EXTH_LANGUAGE = 524;
+
+const readAscii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+// Helper to split a Palm database (PDB) file, the container of MOBI and AZW3 books, into its records
+const readRecords = (bytes: Uint8Array): Uint8Array[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 78 || readAscii(bytes, 60, 8) !== 'BOOKMOBI') {
+    throw new Error("This does not appear to be a MOBI or AZW3 book.");
+  }
+
+  const count = view.getUint16(76);
+  if (bytes.length < 78 + count * 8) throw new Error("Invalid MOBI: record list is truncated");
+  const offsets = Array.from({ length: count }, (_, i) => view.getUint32(78 + i * 8));
+  offsets.push(bytes.length);
+
+  return offsets.slice(0, count).map((start, i) => {
+    if (start > offsets[i + 1] || offsets[i + 1] > bytes.length) throw new Error("Invalid MOBI: corrupt record offsets");
+    return bytes.subarray(start, offsets[i + 1]);
+  });
+};
+
+// Helper to get the size of the extra data Kindle formats append to each text record.
+// Every set bit of `flags` above bit 0 adds one entry whose size is stored as a
+// backwards variable-length integer at the end; bit 0 marks trailing multibyte character bytes.
+const getTrailingSize = (record: Uint8Array, flags: number): number => {
+  let size = 0;
+  for (let bits = flags >> 1; bits > 0; bits >>= 1) {
+    if (!(bits & 1)) continue;
+    let value = 0;
+    for (let shift = 0, pos = record.length - size - 1; pos >= 0 && shift < 28; shift += 7, pos--) {
+      const byte = record[pos];
+      value |= (byte & 0x7f) << shift;
+      if (byte & 0x80) break;
+    }
+    size += value;
+  }
+  if (flags & 1 && record.length > size) {
+    size += (record[record.length - size - 1] & 0x3) + 1;
+  }
+  return Math.min(size, record.length);
+};
+
+// PalmDOC LZ77 decompression. Output is at most 5x the input (a 2-byte back-reference copies up to 10 bytes).
+const decompressPalmDoc = (data: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(data.length * 5);
+  let length = 0;
+  for (let i = 0; i < data.length;) {
+    const c = data[i++];
+    if (c >= 0x01 && c <= 0x08) {
+      // Literal run
+      for (let j = 0; j < c && i < data.length; j++) out[length++] = data[i++];
+    } else if (c <= 0x7f) {
+      out[length++] = c;
+    } else if (c <= 0xbf) {
+      // Back-reference: 11-bit distance, 3-bit length
+      const pair = ((c << 8) | data[i++]) & 0x3fff;
+      const distance = pair >> 3;
+      if (distance === 0 || distance > length) throw new Error("Invalid MOBI: corrupt compressed text");
+      for (let j = 0; j < (pair & 0x7) + 3; j++) {
+        out[length] = out[length - distance];
+        length++;
+      }
+    } else {
+      // Space followed by an ASCII character
+      out[length++] = 0x20;
+      out[length++] = c ^ 0x80;
+    }
+  }
+  return out.subarray(0, length);
+};
+
+// Helper to read the EXTH metadata records that follow the MOBI header
+const readExth = (record0: Uint8Array, view: DataView, mobiHeaderLength: number): Map<number, string[]> => {
+  const values = new Map<number, string[]>();
+  const start = 16 + mobiHeaderLength;
+  if (record0.length < Math.max(0x84, start + 12)) return values;
+  if (!(view.getUint32(0x80) & 0x40) || readAscii(record0, start, 4) !== 'EXTH') return values;
+
+  const decoder = new TextDecoder('utf-8');
+  const count = view.getUint32(start + 8);
+  let pos = start + 12;
+  for (let i = 0; i < count && pos + 8 <= record0.length; i++) {
+    const type = view.getUint32(pos);
+    const length = view.getUint32(pos + 4);
+    if (length < 8) break;
+    const value = decoder.decode(record0.subarray(pos + 8, pos + length)).trim();
+    values.set(type, [...(values.get(type) || []), value]);
+    pos += length;
+  }
+  return values;
+};
+
+// Unencrypted MOBI and AZW3 (KF8) books with uncompressed or PalmDOC-compressed text.
+// The text records hold HTML: MOBI 7 books mark chapters with <mbp:pagebreak>,
+// KF8 books store one HTML file after another.
+export const parseMobi = async (file: File): Promise<ParsedBook> => {
+  try {
+    const records = readRecords(new Uint8Array(await file.arrayBuffer()));
+    const record0 = records[0];
+    if (!record0 || record0.length < 16) throw new Error("Invalid MOBI: header record missing");
+    const view = new DataView(record0.buffer, record0.byteOffset, record0.byteLength);
+
+    // 1. PalmDOC header
+    const compression = view.getUint16(0);
+    const textLength = view.getUint32(4);
+    const textRecordCount = view.getUint16(8);
+    if (view.getUint16(12) !== 0) {
+      throw new Error("This book is DRM-protected. Only DRM-free MOBI and AZW3 files can be read.");
+    }
+    if (compression === HUFF_CDIC_COMPRESSION) {
+      throw new Error("This book uses HUFF/CDIC compression, which is not supported. Please convert it to EPUB.");
+    }
+    if (compression !== NO_COMPRESSION && compression !== PALMDOC_COMPRESSION) {
+      throw new Error(`Unknown compression type ${compression}`);
+    }
+
+    // 2. MOBI header
+    if (readAscii(record0, 16, 4) !== 'MOBI') throw new Error("Invalid MOBI: MOBI header missing");
+    const mobiHeaderLength = view.getUint32(20);
+    const encoding = view.getUint32(28) === 65001 ? 'utf-8' : 'windows-1252';
+    const version = view.getUint32(36);
+    const trailingFlags = mobiHeaderLength >= 0xe4 && record0.length >= 0xf4 ? view.getUint16(0xf2) : 0;
+
+    // 3. Text records (1..textRecordCount), concatenated before decoding since
+    // multibyte characters can span records
+    const parts: Uint8Array[] = [];
+    for (let i = 1; i <= textRecordCount && i < records.length; i++) {
+      const record = records[i];
+      const data = record.subarray(0, record.length - getTrailingSize(record, trailingFlags));
+      parts.push(compression === PALMDOC_COMPRESSION ? decompressPalmDoc(data) : data);
+    }
+    let bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    parts.reduce((offset, part) => {
+      bytes.set(part, offset);
+      return offset + part.length;
+    }, 0);
+    bytes = bytes.subarray(0, textLength);
+
+    // KF8 keeps CSS and SVG in later flows of the text; the FDST record marks where the HTML ends
+    if (version >= 8 && record0.length >= 0xc4) {
+      const fdst = records[view.getUint32(0xc0)];
+      if (fdst && fdst.length >= 20 && readAscii(fdst, 0, 4) === 'FDST') {
+        const fdstView = new DataView(fdst.buffer, fdst.byteOffset, fdst.byteLength);
+        const tableOffset = fdstView.getUint32(4);
+        if (fdst.length >= tableOffset + 8) {
+          bytes = bytes.subarray(fdstView.getUint32(tableOffset), fdstView.getUint32(tableOffset + 4));
+        }
+      }
+    }
+    const html = new TextDecoder(encoding).decode(bytes);
+
+    // 4. Chapters: one per page break (MOBI 7) or HTML file (KF8), like EPUB spine items.
+    // Books without either are split at their headings instead.
+    const parser = new DOMParser();
+    const chapters: BookChapter[] = [];
+    const sections = html.split(version >= 8 ? /(?=<html[\s>])/i : /<mbp:pagebreak[^>]*>/i);
+    if (sections.length > 1) {
+      for (const section of sections) {
+        const doc = parser.parseFromString(section, 'text/html');
+        const text = extractReadableText(doc);
+        if (text.length > 0) {
+          chapters.push({
+            title: findHeading(doc) || `Section ${chapters.length + 1}`,
+            href: `#section-${chapters.length + 1}`,
+            text,
+          });
+        }
+      }
+    }
+    const bookChapters = chapters.length > 1 ? chapters : htmlToChapters(parser.parseFromString(html, 'text/html'));
+    if (bookChapters.length === 0) {
+      throw new Error("No readable text content found in the book.");
+    }
+
+    // 5. Metadata: EXTH records, falling back to the full name in the MOBI header
+    const exth = readExth(record0, view, mobiHeaderLength);
+    const nameOffset = view.getUint32(0x54);
+    const fullName = new TextDecoder(encoding).decode(record0.subarray(nameOffset, nameOffset + view.getUint32(0x58))).trim();
+
+    return {
+      title: exth.get(EXTH_UPDATED_TITLE)?.[0] || fullName || file.name.replace(/\.(mobi|azw3?)$/i, ''),
+      author: (exth.get(EXTH_AUTHOR) || []).join(', '),
+      language: exth.get(EXTH_LANGUAGE)?.[0] || '',
+      chapters: bookChapters,
+    };
+
+  } catch (e: any) {
+    console.error("MOBI Parsing Error:", e);
+    throw new Error(`Failed to process MOBI: ${e.message}`);
+  }
+};
@@ -0,0 +1,201 @@
+import { SummaryMode, ModeDefinition, SummaryResult } from '../types';
+import { getBuiltInPrompt } from './geminiService';
+
+const STORAGE_KEY = 'gemini_ebook_lens_custom_modes';
+
+export const BUILT_IN_MODES: ModeDefinition[] = [
+  {
+    id: SummaryMode.HUMAN,
+    name: 'Readable',
+    label: 'Human-Readable Summary',
+    description: 'Concise narrative summaries for quick reading.',
+    buttonLabel: 'Generate Readable Summary',
+    icon: 'user',
+    color: 'indigo',
+    systemPrompt: getBuiltInPrompt(SummaryMode.HUMAN),
+    temperature: 0.3,
+    outputHints: '',
+    concatenateChunks: false,
+    group: 'strategy',
+    builtIn: true,
+  },
+  {
+    id: SummaryMode.CHAPTER_BY_CHAPTER,
+    name: 'By Chapter',
+    label: 'Chapter-by-Chapter',
+    description: 'Sequential summaries respecting book structure.',
+    buttonLabel: 'Analyze Chapters',
+    icon: 'book-copy',
+    color: 'rose',
+    systemPrompt: getBuiltInPrompt(SummaryMode.CHAPTER_BY_CHAPTER),
+    temperature: 0.1,
+    outputHints: '',
+    concatenateChunks: false,
+    group: 'strategy',
+    builtIn: true,
+  },
+  {
+    id: SummaryMode.TOPIC_ANALYSIS,
+    name: 'Topic Analysis',
+    label: 'Topic Analysis',
+    description: 'Extract and synthesize key themes across the text.',
+    buttonLabel: 'Analyze Topics',
+    icon: 'list-tree',
+    color: 'amber',
+    systemPrompt: getBuiltInPrompt(SummaryMode.TOPIC_ANALYSIS),
+    temperature: 0.1,
+    outputHints: '',
+    concatenateChunks: false,
+    group: 'strategy',
+    builtIn: true,
+  },
+  {
+    id: SummaryMode.RECAP,
+    name: 'Catch Me Up',
+    label: 'Spoiler-Free Recap',
+    description: 'Recap up to where you stopped reading, no spoilers.',
+    buttonLabel: 'Catch Me Up',
+    icon: 'bookmark',
+    color: 'sky',
+    systemPrompt: getBuiltInPrompt(SummaryMode.RECAP),
+    temperature: 0.3,
+    outputHints: '',
+    concatenateChunks: false,
+    readingProgress: true,
+    group: 'strategy',
+    builtIn: true,
+  },
+  {
+    id: SummaryMode.AI_AGENT,
+    name: 'AI Context',
+    label: 'AI Context Graph',
+    description: 'Dense facts & entities for LLM ingestion.',
+    buttonLabel: 'Generate AI Context',
+    icon: 'bot',
+    color: 'purple',
+    systemPrompt: getBuiltInPrompt(SummaryMode.AI_AGENT),
+    temperature: 0.1,
+    outputHints: '',
+    concatenateChunks: false,
+    group: 'data',
+    builtIn: true,
+  },
+  {
+    id: SummaryMode.MARKDOWN,
+    name: 'Markdown',
+    label: 'Markdown Conversion',
+    description: 'Full content conversion to structured MD.',
+    buttonLabel: 'Convert to Markdown',
+    icon: 'file-code',
+    color: 'teal',
+    systemPrompt: getBuiltInPrompt(SummaryMode.MARKDOWN),
+    temperature: 0.1,
+    outputHints: '',
+    concatenateChunks: true,
+    group: 'data',
+    builtIn: true,
+  },
+  {
+    id: SummaryMode.KNOWLEDGE_JSON,
+    name: 'Knowledge JSON',
+    label: 'Structured Knowledge (JSON)',
+    description: 'Typed entities, definitions, claims & relations.',
+    buttonLabel: 'Extract Knowledge',
+    icon: 'braces',
+    color: 'emerald',
+    systemPrompt: getBuiltInPrompt(SummaryMode.KNOWLEDGE_JSON),
+    temperature: 0.1,
+    outputHints: '',
+    concatenateChunks: false,
+    outputFormat: 'json',
+    group: 'data',
+    builtIn: true,
+  },
+  {
+    id: SummaryMode.STUDY,
+    name: 'Study Cards',
+    label: 'Flashcards & Quiz',
+    description: 'Flashcards and quizzes per chapter, Anki export.',
+    buttonLabel: 'Create Study Cards',
+    icon: 'graduation-cap',
+    color: 'orange',
+    systemPrompt: getBuiltInPrompt(SummaryMode.STUDY),
+    temperature: 0.2,
+    outputHints: '',
+    concatenateChunks: false,
+    outputFormat: 'json',
+    jsonSchema: 'study',
+    group: 'data',
+    builtIn: true,
+  },
+];
+
+export const getCustomModes = (): ModeDefinition[] => {
+  // Custom modes live in the browser; there are none outside it (e.g. in the CLI)
+  if (typeof localStorage === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    console.error("Failed to load custom modes", e);
+    return [];
+  }
+};
+
+export const getModes = (): ModeDefinition[] => [...BUILT_IN_MODES, ...getCustomModes()];
+
+export const findMode = (id: string): ModeDefinition | undefined => getModes().find(m => m.id === id);
+
+// Mode to display a saved result with. Falls back to the prompt snapshot's name when the
+// custom mode it was generated with has since been deleted.
+export const resolveResultMode = (result: SummaryResult): ModeDefinition =>
+  findMode(result.mode) || {
+    ...createEmptyMode(),
+    id: result.mode,
+    name: result.promptSnapshot?.modeName || 'Unknown',
+    label: result.promptSnapshot?.modeName || 'Summary',
+    color: 'slate',
+  };
+
+// Insert or update a custom mode; returns the full mode list
+export const saveCustomMode = (mode: ModeDefinition): ModeDefinition[] => {
+  const custom = getCustomModes();
+  const entry: ModeDefinition = { ...mode, builtIn: false, group: 'custom' };
+  const index = custom.findIndex(m => m.id === entry.id);
+  if (index >= 0) custom[index] = entry; else custom.push(entry);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(custom));
+  return getModes();
+};
+
+export const deleteCustomMode = (id: string): ModeDefinition[] => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(getCustomModes().filter(m => m.id !== id)));
+  return getModes();
+};
+
+const newModeId = () => `custom-${crypto.randomUUID ? crypto.randomUUID() : Date.now().toString()}`;
+
+export const createEmptyMode = (): ModeDefinition => ({
+  id: newModeId(),
+  name: 'New Mode',
+  label: 'New Mode',
+  description: '',
+  buttonLabel: 'Generate',
+  icon: 'sparkles',
+  color: 'sky',
+  systemPrompt: 'You are an expert editor. Your task is to ...',
+  temperature: 0.2,
+  outputHints: '',
+  concatenateChunks: false,
+  group: 'custom',
+  builtIn: false,
+});
+
+// Unsaved copy of an existing mode, as a starting point for a custom one
+export const duplicateMode = (mode: ModeDefinition): ModeDefinition => ({
+  ...mode,
+  id: newModeId(),
+  name: `${mode.name} (Copy)`,
+  label: `${mode.label} (Copy)`,
+  group: 'custom',
+  builtIn: false,
+});
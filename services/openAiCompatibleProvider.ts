@@ -0,0 +1,182 @@
+import { ProviderId } from "../types";
+import type { Schema } from "@google/genai";
+import type { LLMProvider, GenerationRequest } from "./llmProvider";
+import { classifyError, withRetry, SafetyBlockError } from "./errorService";
+import { getApiKey } from "./apiKeyService";
+
+// Any server implementing the OpenAI chat-completions API (llama.cpp server, Ollama, vLLM, LM Studio...)
+// e.g. http://localhost:11434/v1 for Ollama or http://localhost:8080/v1 for llama.cpp
+const getBaseUrl = (): string => {
+  const baseUrl = process.env.LOCAL_LLM_BASE_URL;
+  if (!baseUrl) {
+    throw new Error("LOCAL_LLM_BASE_URL not found in environment variables");
+  }
+  return baseUrl.replace(/\/+$/, '');
+};
+
+// Reads a server-sent-events body and yields the `data:` payloads
+async function* readSseData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (trimmed.startsWith('data:')) yield trimmed.substring(5).trim();
+      }
+    }
+    if (buffer.trim().startsWith('data:')) yield buffer.trim().substring(5).trim();
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Helper to convert a Gemini response schema (upper-case types) to standard JSON Schema
+const toJsonSchema = (schema: Schema): Record<string, unknown> => ({
+  ...(schema.type && { type: schema.type.toLowerCase() }),
+  ...(schema.properties && {
+    properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])),
+  }),
+  ...(schema.items && { items: toJsonSchema(schema.items) }),
+  ...(schema.required && { required: schema.required }),
+});
+
+interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Helper to run a streaming chat-completions request, accumulating the text.
+// Transient failures are retried with backoff; on abort, resolves with whatever
+// has been received so far.
+const streamChatCompletion = async (
+  modelId: string,
+  temperature: number,
+  messages: ChatCompletionMessage[],
+  onText?: (text: string) => void,
+  signal?: AbortSignal,
+  responseSchema?: Schema,
+  hooks: Pick<GenerationRequest, 'onRetry' | 'onUsage'> = {}
+): Promise<string> => {
+  let accumulated = '';
+  if (signal?.aborted) return accumulated;
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const apiKey = getApiKey(ProviderId.OPENAI_COMPATIBLE);
+  if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+  try {
+    return await withRetry(async () => {
+      accumulated = '';
+      const response = await fetch(`${getBaseUrl()}/chat/completions`, {
+        method: 'POST',
+        headers,
+        signal,
+        body: JSON.stringify({
+          model: modelId,
+          temperature,
+          stream: true,
+          stream_options: { include_usage: true },
+          messages,
+          ...(responseSchema && {
+            response_format: { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(responseSchema) } },
+          }),
+        }),
+      });
+
+      if (!response.ok || !response.body) {
+        const detail = await response.text().catch(() => '');
+        throw classifyError(
+          new Error(`Request failed with status ${response.status}${detail ? `: ${detail}` : ''}`),
+          response.status,
+          response.headers.get('retry-after')
+        );
+      }
+
+      for await (const data of readSseData(response.body)) {
+        if (data === '[DONE]') break;
+        const payload = JSON.parse(data);
+        // Sent in a final chunk without choices when include_usage is honored
+        if (payload.usage) {
+          hooks.onUsage?.({ inputTokens: payload.usage.prompt_tokens || 0, outputTokens: payload.usage.completion_tokens || 0 });
+        }
+        const choice = payload.choices?.[0];
+        if (choice?.finish_reason === 'content_filter') {
+          throw new SafetyBlockError("Response blocked by the server's content filter");
+        }
+        const delta = choice?.delta?.content;
+        if (delta) {
+          accumulated += delta;
+          onText?.(accumulated);
+        }
+      }
+      return accumulated;
+    }, '', { signal, onRetry: hooks.onRetry });
+  } catch (error: any) {
+    if (signal?.aborted) return accumulated;
+    console.error("OpenAI-compatible API Error:", error);
+    throw classifyError(error);
+  }
+};
+
+// Check a key by listing the server's models, which needs authorization but generates nothing.
+// Servers that don't check keys accept any.
+export const testLocalApiKey = async (apiKey: string): Promise<void> => {
+  try {
+    const response = await fetch(`${getBaseUrl()}/models`, { headers: { 'Authorization': `Bearer ${apiKey}` } });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw classifyError(new Error(`Request failed with status ${response.status}${detail ? `: ${detail}` : ''}`), response.status);
+    }
+  } catch (error) {
+    throw classifyError(error);
+  }
+};
+
+export const openAiCompatibleProvider: LLMProvider = {
+  id: ProviderId.OPENAI_COMPATIBLE,
+  name: 'OpenAI-Compatible (Local)',
+  supportsInlineData: false,
+
+  streamText: async ({ modelId, systemInstruction, temperature, parts, responseSchema, onRetry, onUsage }, onText, signal) => {
+    const userContent = parts.map(part => {
+      if ('text' in part) return part.text;
+      throw new Error(`${openAiCompatibleProvider.name} models cannot read ${part.inlineData.mimeType} files directly. Please upload an EPUB or TXT file.`);
+    }).join('\n\n');
+
+    return streamChatCompletion(
+      modelId,
+      temperature,
+      [
+        { role: 'system', content: systemInstruction },
+        { role: 'user', content: userContent },
+      ],
+      onText,
+      signal,
+      responseSchema,
+      { onRetry, onUsage }
+    );
+  },
+
+  streamChat: async ({ modelId, systemInstruction, temperature, history, message }, onText, signal) => {
+    return streamChatCompletion(
+      modelId,
+      temperature,
+      [
+        { role: 'system', content: systemInstruction },
+        ...history.map((m): ChatCompletionMessage => ({ role: m.role === 'model' ? 'assistant' : 'user', content: m.text })),
+        { role: 'user', content: message },
+      ],
+      onText,
+      signal
+    );
+  },
+};
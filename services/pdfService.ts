@@ -0,0 +1,183 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { ParsedBook, BookChapter } from '../types';
+
+// pdf.js parses in a worker; use the copy bundled with the app, unless the host
+// (e.g. the CLI) has already pointed it at one. Imported on first use, since Node can't load `?url` imports.
+const ensurePdfWorker = async () => {
+  if (pdfjsLib.GlobalWorkerOptions.workerSrc) return;
+  const { default: workerUrl } = await import('pdfjs-dist/build/pdf.worker.min.mjs?url');
+  pdfjsLib.GlobalWorkerOptions.workerSrc = workerUrl;
+};
+
+// Below this many characters per page on average, the PDF is treated as scanned (no text layer)
+const MIN_CHARS_PER_PAGE = 20;
+
+// A line whose font is this much larger than the body text is considered a heading candidate
+const HEADING_SIZE_RATIO = 1.5;
+const MAX_HEADING_LENGTH = 100;
+
+interface PageText {
+  text: string;
+  // First non-empty line of the page and its font height, used for heading detection
+  firstLine: string;
+  firstLineHeight: number;
+}
+
+interface ChapterStart {
+  title: string;
+  pageIndex: number;
+}
+
+// Helper to extract the text of a single page, preserving line breaks
+const extractPageText = async (pdf: PDFDocumentProxy, pageNumber: number, heights: number[]): Promise<PageText> => {
+  const page = await pdf.getPage(pageNumber);
+  const content = await page.getTextContent();
+
+  const lines: { text: string; height: number }[] = [];
+  let line = '';
+  let lineHeight = 0;
+
+  for (const item of content.items) {
+    if (!('str' in item)) continue;
+    line += item.str;
+    lineHeight = Math.max(lineHeight, item.height);
+    if (item.str.trim()) {
+      for (let i = 0; i < item.str.length; i++) heights.push(item.height);
+    }
+    if (item.hasEOL) {
+      lines.push({ text: line, height: lineHeight });
+      line = '';
+      lineHeight = 0;
+    }
+  }
+  if (line) lines.push({ text: line, height: lineHeight });
+
+  const first = lines.find(l => l.text.trim().length > 0);
+  const text = lines
+    .map(l => l.text.replace(/\s+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return {
+    text,
+    firstLine: first ? first.text.replace(/\s+/g, ' ').trim() : '',
+    firstLineHeight: first ? first.height : 0,
+  };
+};
+
+// Helper to read chapter boundaries from the PDF outline (bookmarks), top level only
+const getOutlineChapters = async (pdf: PDFDocumentProxy): Promise<ChapterStart[]> => {
+  const outline = await pdf.getOutline();
+  if (!outline) return [];
+
+  const starts: ChapterStart[] = [];
+  for (const entry of outline) {
+    try {
+      const dest = typeof entry.dest === 'string' ? await pdf.getDestination(entry.dest) : entry.dest;
+      if (!dest || dest.length === 0) continue;
+
+      const target = dest[0];
+      const pageIndex = typeof target === 'number' ? target : await pdf.getPageIndex(target);
+      const title = entry.title.replace(/\s+/g, ' ').trim();
+      if (title) starts.push({ title, pageIndex });
+    } catch (e) {
+      // Broken destinations are common in generated PDFs; skip the entry
+      console.warn("Skipping unresolved PDF outline entry", entry.title, e);
+    }
+  }
+
+  return starts.sort((a, b) => a.pageIndex - b.pageIndex);
+};
+
+// Helper to detect chapter starts from typography: a page opening with a line set
+// noticeably larger than the median body text
+const detectHeadingChapters = (pages: PageText[], heights: number[]): ChapterStart[] => {
+  if (heights.length === 0) return [];
+  const sorted = [...heights].sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+
+  return pages
+    .map((page, pageIndex) => ({ page, pageIndex }))
+    .filter(({ page }) =>
+      page.firstLine.length > 1 &&
+      page.firstLine.length <= MAX_HEADING_LENGTH &&
+      page.firstLineHeight >= median * HEADING_SIZE_RATIO
+    )
+    .map(({ page, pageIndex }) => ({ title: page.firstLine, pageIndex }));
+};
+
+// Parse a PDF into the same chapter structure as the EPUB path.
+// Page text is prefixed with [Page N] markers so summaries can cite page numbers.
+// Returns null when the PDF has no usable text layer (e.g. scanned images).
+export const parsePdf = async (
+  file: File,
+  onProgress?: (progress: string) => void
+): Promise<ParsedBook | null> => {
+  try {
+    await ensurePdfWorker();
+    const data = new Uint8Array(await file.arrayBuffer());
+    const pdf = await pdfjsLib.getDocument({ data }).promise;
+
+    // 1. Extract text page by page
+    const pages: PageText[] = [];
+    const heights: number[] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+      onProgress?.(`Extracting PDF text: page ${i}/${pdf.numPages}...`);
+      pages.push(await extractPageText(pdf, i, heights));
+    }
+
+    const totalChars = pages.reduce((sum, p) => sum + p.text.length, 0);
+    if (totalChars < pdf.numPages * MIN_CHARS_PER_PAGE) {
+      return null;
+    }
+
+    // 2. Chapter boundaries: outline bookmarks first, typography as fallback
+    let starts = await getOutlineChapters(pdf);
+    if (starts.length === 0) starts = detectHeadingChapters(pages, heights);
+
+    // Keep one boundary per page and add a leading section for pages before the first chapter
+    starts = starts.filter((s, i) => i === 0 || s.pageIndex !== starts[i - 1].pageIndex);
+    if (starts.length === 0 || starts[0].pageIndex > 0) {
+      starts.unshift({ title: starts.length === 0 ? '' : 'Front Matter', pageIndex: 0 });
+    }
+
+    // 3. Assemble chapters from page ranges
+    const chapters: BookChapter[] = [];
+    starts.forEach((start, i) => {
+      const endIndex = i + 1 < starts.length ? starts[i + 1].pageIndex - 1 : pages.length - 1;
+      const text = pages
+        .slice(start.pageIndex, endIndex + 1)
+        .map((page, offset) => page.text ? `[Page ${start.pageIndex + offset + 1}]\n${page.text}` : '')
+        .filter(t => t.length > 0)
+        .join('\n\n');
+
+      if (text.length > 0) {
+        chapters.push({
+          title: start.title,
+          href: `#page=${start.pageIndex + 1}`,
+          text,
+          startPage: start.pageIndex + 1,
+          endPage: endIndex + 1,
+        });
+      }
+    });
+
+    // 4. Document metadata (Info dictionary)
+    const { info } = await pdf.getMetadata();
+    const infoDict = (info || {}) as Record<string, unknown>;
+    const readInfo = (key: string) => typeof infoDict[key] === 'string' ? (infoDict[key] as string).trim() : '';
+
+    return {
+      title: readInfo('Title') || file.name.replace(/\.pdf$/i, ''),
+      author: readInfo('Author'),
+      language: readInfo('Language'),
+      chapters,
+    };
+
+  } catch (e: any) {
+    console.error("PDF Parsing Error:", e);
+    throw new Error(`Failed to process PDF: ${e.message}`);
+  }
+};
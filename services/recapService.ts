@@ -0,0 +1,101 @@
+import { ParsedBook, StoppingPoint, SummaryResult } from '../types';
+
+// How far back a stopping point may move to land on a paragraph or sentence break
+const MAX_SNAP_CHARS = 2000;
+
+const getChapterName = (book: ParsedBook, index: number) =>
+  book.chapters[index].title || `Section ${index + 1}`;
+
+// Helper to find where each chapter starts in the book's text, plus the total length
+const getOffsets = (book: ParsedBook): { starts: number[]; total: number } => {
+  const starts: number[] = [];
+  let total = 0;
+  for (const chapter of book.chapters) {
+    starts.push(total);
+    total += chapter.text.length;
+  }
+  return { starts, total };
+};
+
+// Helper to find the chapter containing a character offset
+const findChapter = (starts: number[], offset: number): number => {
+  let index = 0;
+  while (index + 1 < starts.length && starts[index + 1] <= offset) index++;
+  return index;
+};
+
+// Convert a percentage into a character offset, moved back to the nearest paragraph or sentence break
+const toOffset = (book: ParsedBook, percent: number): number => {
+  const { starts, total } = getOffsets(book);
+  const offset = Math.round((percent / 100) * total);
+  if (offset <= 0 || offset >= total) return Math.max(0, Math.min(offset, total));
+  // Chapter stopping points land on a chapter boundary, give or take rounding
+  const boundary = starts.find(start => Math.abs(start - offset) <= 1);
+  if (boundary !== undefined) return boundary;
+
+  const index = findChapter(starts, offset);
+  const local = offset - starts[index];
+  const text = book.chapters[index].text;
+  const paragraph = text.lastIndexOf('\n', local);
+  if (paragraph >= 0 && local - paragraph <= MAX_SNAP_CHARS) return starts[index] + paragraph;
+  const sentence = Math.max(text.lastIndexOf('. ', local), text.lastIndexOf('! ', local), text.lastIndexOf('? ', local));
+  if (sentence >= 0 && local - sentence <= MAX_SNAP_CHARS) return starts[index] + sentence + 1;
+  return offset;
+};
+
+// Percentage of the book's text read once the given chapter is finished
+export const getChapterEndPercent = (book: ParsedBook, chapterIndex: number): number => {
+  const { starts, total } = getOffsets(book);
+  if (total === 0) return 100;
+  return ((starts[chapterIndex] + book.chapters[chapterIndex].text.length) / total) * 100;
+};
+
+export const createChapterStoppingPoint = (book: ParsedBook, chapterIndex: number): StoppingPoint => ({
+  percent: getChapterEndPercent(book, chapterIndex),
+  chapterIndex,
+  label: `end of "${getChapterName(book, chapterIndex)}"`,
+});
+
+export const createPercentStoppingPoint = (book: ParsedBook, percent: number): StoppingPoint => {
+  const { starts, total } = getOffsets(book);
+  const chapterIndex = findChapter(starts, Math.min(total - 1, Math.round((percent / 100) * total)));
+  return { percent, chapterIndex, label: `${Math.round(percent)}% mark (in "${getChapterName(book, chapterIndex)}")` };
+};
+
+// The newest complete recap of the same book, in the same mode, that stopped before `point`
+export const findPreviousRecap = (
+  history: SummaryResult[],
+  fileName: string,
+  modeId: string,
+  point: StoppingPoint
+): SummaryResult | undefined =>
+  history
+    .filter(item => item.fileName === fileName && item.mode === modeId && item.stoppingPoint && !item.isPartial
+      && item.stoppingPoint.percent < point.percent)
+    .sort((a, b) => b.stoppingPoint!.percent - a.stoppingPoint!.percent || b.timestamp - a.timestamp)[0];
+
+// The part of the book a recap may see: the text before the stopping point, starting after
+// the previous recap's stopping point when continuing from one. A continued recap gets the
+// previous recap as a leading "RECAP SO FAR" section, so the model knows what is covered.
+export const getRecapBook = (book: ParsedBook, point: StoppingPoint, previous?: SummaryResult): ParsedBook => {
+  const { starts } = getOffsets(book);
+  const from = previous?.stoppingPoint ? toOffset(book, previous.stoppingPoint.percent) : 0;
+  const to = toOffset(book, point.percent);
+
+  const chapters = book.chapters
+    .map((chapter, i) => {
+      const start = Math.max(from, starts[i]) - starts[i];
+      const end = Math.min(to, starts[i] + chapter.text.length) - starts[i];
+      return end > start ? { ...chapter, text: chapter.text.slice(start, end).trim() } : null;
+    })
+    .filter((chapter): chapter is NonNullable<typeof chapter> => !!chapter && !!chapter.text);
+
+  if (previous) {
+    chapters.unshift({
+      title: `RECAP SO FAR (up to the ${previous.stoppingPoint!.label})`,
+      href: '',
+      text: previous.text,
+    });
+  }
+  return { ...book, chapters };
+};
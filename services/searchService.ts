@@ -0,0 +1,57 @@
+import { SummaryResult } from '../types';
+
+export interface HistoryFilters {
+  query: string;
+  mode: string; // ModeDefinition id, '' for all
+  modelId: string;
+  dateFrom: string; // yyyy-mm-dd, inclusive
+  dateTo: string; // yyyy-mm-dd, inclusive
+}
+
+export const EMPTY_FILTERS: HistoryFilters = { query: '', mode: '', modelId: '', dateFrom: '', dateTo: '' };
+
+export interface MatchSnippet {
+  before: string;
+  match: string;
+  after: string;
+}
+
+const SNIPPET_CONTEXT = 60;
+
+export const hasActiveFilters = (filters: HistoryFilters): boolean =>
+  Object.values(filters).some(value => value !== '');
+
+export const filterHistory = (history: SummaryResult[], filters: HistoryFilters): SummaryResult[] => {
+  const query = filters.query.trim().toLowerCase();
+  // Date inputs are local calendar days
+  const from = filters.dateFrom ? new Date(`${filters.dateFrom}T00:00:00`).getTime() : -Infinity;
+  const to = filters.dateTo ? new Date(`${filters.dateTo}T23:59:59.999`).getTime() : Infinity;
+
+  return history.filter(item => {
+    if (filters.mode && item.mode !== filters.mode) return false;
+    if (filters.modelId && item.modelId !== filters.modelId) return false;
+    if (item.timestamp < from || item.timestamp > to) return false;
+    if (query && !item.text.toLowerCase().includes(query) && !item.fileName.toLowerCase().includes(query)) return false;
+    return true;
+  });
+};
+
+// First occurrence of the query in the summary text with surrounding context, or null if
+// the item only matched on its file name
+export const getMatchSnippet = (text: string, query: string): MatchSnippet | null => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return null;
+
+  const index = text.toLowerCase().indexOf(needle);
+  if (index === -1) return null;
+
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, index + needle.length + SNIPPET_CONTEXT);
+  const clean = (s: string) => s.replace(/[#*`]/g, '').replace(/\s+/g, ' ');
+
+  return {
+    before: (start > 0 ? '…' : '') + clean(text.substring(start, index)),
+    match: text.substring(index, index + needle.length),
+    after: clean(text.substring(index + needle.length, end)) + (end < text.length ? '…' : ''),
+  };
+};
@@ -0,0 +1,99 @@
+import { Schema, Type } from "@google/genai";
+import { ParsedBook, StudyDeck } from "../types";
+import { findSchemaError, parseJsonOutput } from "./knowledgeService";
+
+const stringField: Schema = { type: Type.STRING };
+
+// Response schema for the STUDY mode, mirroring the StudyDeck type
+export const STUDY_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: stringField,
+    flashcards: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { question: stringField, answer: stringField, chapter: stringField },
+        required: ['question', 'answer', 'chapter'],
+      },
+    },
+    quiz: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          question: stringField,
+          options: { type: Type.ARRAY, items: stringField },
+          correctIndex: { type: Type.INTEGER },
+          explanation: stringField,
+          chapter: stringField,
+        },
+        required: ['question', 'options', 'correctIndex', 'explanation', 'chapter'],
+      },
+    },
+  },
+  required: ['title', 'flashcards', 'quiz'],
+  propertyOrdering: ['title', 'flashcards', 'quiz'],
+};
+
+// Parse and validate model output, like parseKnowledgeDocument
+export const parseStudyDeck = (text: string): StudyDeck => {
+  const value = parseJsonOutput(text);
+  const error = findSchemaError(value, STUDY_SCHEMA, 'deck');
+  if (error) {
+    throw new Error(`The model's study deck failed validation: ${error}.`);
+  }
+
+  const deck = value as StudyDeck;
+  const invalid = deck.quiz.findIndex(q => q.options.length < 2 || q.correctIndex < 0 || q.correctIndex >= q.options.length);
+  if (invalid !== -1) {
+    throw new Error(`The model's study deck failed validation: quiz question ${invalid + 1} has no valid correct option.`);
+  }
+  return deck;
+};
+
+// Helper to drop items whose question was already asked
+const dedupeQuestions = <T extends { question: string }>(items: T[]): T[] => {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const key = item.question.trim().toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Combine decks generated from consecutive parts of a book, dropping repeated questions
+export const mergeStudyDecks = (decks: StudyDeck[]): StudyDeck => ({
+  title: decks.find(d => d.title)?.title || '',
+  flashcards: dedupeQuestions(decks.flatMap(d => d.flashcards)),
+  quiz: dedupeQuestions(decks.flatMap(d => d.quiz)),
+});
+
+// Helper to compare chapter titles loosely, since the model may alter case or spacing
+const normalizeTitle = (title: string) => title.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Link each card to the parsed chapter whose title it names
+export const linkStudyDeck = (deck: StudyDeck, book: ParsedBook): StudyDeck => {
+  const hrefs = new Map<string, string>();
+  for (const chapter of book.chapters) {
+    if (chapter.title && chapter.href) hrefs.set(normalizeTitle(chapter.title), chapter.href);
+  }
+  const link = <T extends { chapter: string }>(item: T): T => {
+    const chapterHref = hrefs.get(normalizeTitle(item.chapter));
+    return chapterHref ? { ...item, chapterHref } : item;
+  };
+
+  return { ...deck, flashcards: deck.flashcards.map(link), quiz: deck.quiz.map(link) };
+};
+
+// Cards and questions grouped by chapter, in the order chapters first appear
+export const groupByChapter = <T extends { chapter: string }>(items: T[]): [string, T[]][] => {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const group = groups.get(item.chapter);
+    if (group) group.push(item);
+    else groups.set(item.chapter, [item]);
+  }
+  return Array.from(groups.entries());
+};
@@ -0,0 +1,130 @@
+import { FileData, ModeDefinition, ParsedBook, SummaryResult, TokenUsage, BookImage } from '../types';
+import { generateSummary, generateChunkedSummary, buildSystemInstruction, GenerationOptions } from './geminiService';
+import { parseBook } from './bookService';
+import { formatBookText } from './epubService';
+import { parseStudyDeck, linkStudyDeck } from './studyService';
+import { findCachedResult } from './historyService';
+import { encodeBase64 } from './bookWorkerClient';
+
+// Build the history entry for a finished generation. `selected` holds the indexes of
+// the chapters that were summarized; `details` holds optional metadata about the run.
+export const createSummaryResult = (
+  fileName: string,
+  text: string,
+  mode: ModeDefinition,
+  modelId: string,
+  book: ParsedBook | null,
+  selected: number[],
+  isPartial: boolean,
+  details: Pick<SummaryResult, 'usage' | 'contentHash' | 'stoppingPoint'> = {}
+): SummaryResult => ({
+  id: crypto.randomUUID ? crypto.randomUUID() : Date.now().toString(),
+  text,
+  mode: mode.id,
+  fileName,
+  timestamp: Date.now(),
+  modelId,
+  isPartial: isPartial || undefined,
+  chapters: book && book.chapters.length > 1 ? selected.map(i => book.chapters[i].title || `Section ${i + 1}`) : undefined,
+  totalChapters: book && book.chapters.length > 1 ? book.chapters.length : undefined,
+  promptSnapshot: {
+    modeName: mode.name,
+    systemInstruction: buildSystemInstruction(mode),
+    temperature: mode.temperature,
+  },
+  figures: book ? getReferencedFigures(text, book) : undefined,
+  ...details,
+});
+
+// Helper to keep the book figures an output shows (as figure:<id> images), so history can display them
+const getReferencedFigures = (text: string, book: ParsedBook): BookImage[] | undefined => {
+  const ids = new Set(Array.from(text.matchAll(/\(figure:(fig-\d+)\)/g), match => match[1]));
+  if (ids.size === 0) return undefined;
+  // An image used in several chapters is listed once per chapter
+  const images = new Map(book.chapters.flatMap(chapter => chapter.images || []).map(image => [image.id, image]));
+  return Array.from(images.values()).filter(image => ids.has(image.id));
+};
+
+// Helper to hex-encode a SHA-256 digest of a string
+const sha256 = async (value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Cache key for a generation: what the model would be sent (the selected chapters' text,
+// or the raw document) plus everything that shapes its output
+export const computeContentHash = async (
+  fileData: FileData,
+  book: ParsedBook | null,
+  selected: number[],
+  mode: ModeDefinition,
+  modelId: string
+): Promise<string> => {
+  const content = book
+    ? formatBookText({ ...book, chapters: book.chapters.filter((_, i) => selected.includes(i)) })
+    : `${fileData.mimeType}\n${await encodeBase64(fileData.file)}`;
+  return sha256([mode.id, modelId, buildSystemInstruction(mode), mode.temperature, content].join('\u0000'));
+};
+
+// Generate output for already-parsed content: the selected chapters of the extracted
+// text, or the raw document when there is no extractable text (e.g. scanned PDF)
+export const summarizeContent = async (
+  fileData: FileData,
+  book: ParsedBook | null,
+  selected: number[],
+  mode: ModeDefinition,
+  modelId: string,
+  options: GenerationOptions = {}
+): Promise<string> => {
+  if (book) {
+    // Extracted text is chunked (map-reduce) so long books fit the model context
+    const chapters = book.chapters.filter((_, i) => selected.includes(i));
+    if (chapters.length === 0) throw new Error("Select at least one chapter to summarize.");
+    const figures = chapters.flatMap(chapter => chapter.images || []);
+    const output = await generateChunkedSummary(formatBookText({ ...book, chapters }), mode, modelId, { ...options, figures });
+    // Study cards link back to the parsed chapters they were written from
+    return mode.jsonSchema === 'study' ? JSON.stringify(linkStudyDeck(parseStudyDeck(output), book), null, 2) : output;
+  }
+  // No extractable text; let the model read the document itself
+  return generateSummary(await encodeBase64(fileData.file), fileData.mimeType, mode, modelId, options);
+};
+
+export type SummarizeStage = 'parsing' | 'generating';
+
+// Parse and summarize a whole book without user interaction (batch processing).
+// Like a single book, an earlier result for the same content, mode and model is reused.
+// Throws if aborted, since a batch item has no use for partial output.
+export const summarizeFile = async (
+  fileData: FileData,
+  mode: ModeDefinition,
+  modelId: string,
+  onStage: (stage: SummarizeStage) => void,
+  options: GenerationOptions = {}
+): Promise<SummaryResult> => {
+  // A recap covers the book up to where the reader stopped, which only the single-book view asks for
+  if (mode.readingProgress) {
+    throw new Error(`${mode.name} needs to know where you stopped reading. Open the book on its own to choose a stopping point.`);
+  }
+
+  onStage('parsing');
+  const book = await parseBook(fileData.file, fileData.mimeType, options.onProgress, options.signal);
+  if (options.signal?.aborted) throw new Error("Cancelled");
+
+  const selected = book ? book.chapters.map((_, i) => i) : [];
+  const contentHash = await computeContentHash(fileData, book, selected, mode, modelId);
+  const cached = await findCachedResult(contentHash);
+  if (cached) return cached;
+
+  onStage('generating');
+  let usage: TokenUsage | undefined;
+  const text = await summarizeContent(fileData, book, selected, mode, modelId, {
+    ...options,
+    onUsage: (total) => {
+      usage = total;
+      options.onUsage?.(total);
+    },
+  });
+  if (options.signal?.aborted) throw new Error("Cancelled");
+
+  return createSummaryResult(fileData.file.name, text, mode, modelId, book, selected, false, { usage, contentHash });
+};
@@ -4,6 +4,100 @@ export enum SummaryMode {
   MARKDOWN = 'MARKDOWN',
   TOPIC_ANALYSIS = 'TOPIC_ANALYSIS',
   CHAPTER_BY_CHAPTER = 'CHAPTER_BY_CHAPTER',
+  KNOWLEDGE_JSON = 'KNOWLEDGE_JSON',
+  RECAP = 'RECAP',
+  STUDY = 'STUDY',
+}
+
+export type ModeColor = 'indigo' | 'purple' | 'teal' | 'amber' | 'rose' | 'sky' | 'emerald' | 'orange' | 'pink' | 'slate';
+
+export type ModeIcon = 'user' | 'bot' | 'file-code' | 'list-tree' | 'book-copy' | 'sparkles' | 'lightbulb' | 'graduation-cap' | 'target' | 'message-square' | 'braces' | 'bookmark';
+
+// A summary strategy: either one of the built-in SummaryMode values or a user-defined mode
+export interface ModeDefinition {
+  id: string; // SummaryMode value for built-ins, generated for custom modes
+  name: string; // Short name shown on cards and badges
+  label: string; // Heading shown above a result
+  description: string;
+  buttonLabel: string;
+  icon: ModeIcon;
+  color: ModeColor;
+  systemPrompt: string;
+  temperature: number;
+  outputHints: string; // Extra formatting guidance appended to the system prompt
+  concatenateChunks: boolean; // Conversion-style modes: join per-chunk outputs instead of merging them
+  outputFormat?: 'markdown' | 'json'; // Defaults to markdown
+  jsonSchema?: 'knowledge' | 'study'; // json modes: KnowledgeDocument (default) or StudyDeck
+  readingProgress?: boolean; // Only the text before the reader's stopping point is sent
+  group: 'strategy' | 'data' | 'custom';
+  builtIn: boolean;
+}
+
+// What a result was generated with, so it can be reproduced after the mode is edited or deleted
+export interface PromptSnapshot {
+  modeName: string;
+  systemInstruction: string;
+  temperature: number;
+}
+
+// Structured output of the KNOWLEDGE_JSON mode. Chapter references use the chapter titles
+// from the source text (empty when the book has no chapter structure).
+export interface KnowledgeEntity {
+  name: string;
+  type: string; // e.g. person, organization, concept, place
+  description: string;
+  chapters: string[];
+}
+
+export interface KnowledgeDefinition {
+  term: string;
+  definition: string;
+  chapter: string;
+}
+
+export interface KnowledgeClaim {
+  statement: string;
+  evidence: string;
+  chapter: string;
+}
+
+export interface KnowledgeRelation {
+  cause: string;
+  effect: string;
+  explanation: string;
+  chapter: string;
+}
+
+export interface KnowledgeDocument {
+  title: string;
+  entities: KnowledgeEntity[];
+  definitions: KnowledgeDefinition[];
+  claims: KnowledgeClaim[];
+  relations: KnowledgeRelation[];
+}
+
+// Structured output of the STUDY mode. `chapter` is the source chapter title as written
+// by the model; `chapterHref` links it to the parsed chapter (BookChapter.href) when one matches.
+export interface Flashcard {
+  question: string;
+  answer: string;
+  chapter: string;
+  chapterHref?: string;
+}
+
+export interface QuizQuestion {
+  question: string;
+  options: string[];
+  correctIndex: number; // Into options
+  explanation: string;
+  chapter: string;
+  chapterHref?: string;
+}
+
+export interface StudyDeck {
+  title: string;
+  flashcards: Flashcard[];
+  quiz: QuizQuestion[];
 }
 
 export interface ProcessingState {
@@ -12,21 +106,126 @@ export interface ProcessingState {
   progress: string;
 }
 
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+  timestamp: number;
+}
+
 export interface SummaryResult {
   id: string;
   text: string;
-  mode: SummaryMode;
+  mode: string; // ModeDefinition id (a SummaryMode value for built-in modes)
   fileName: string;
   timestamp: number;
+  modelId?: string; // Missing on entries saved before the model was recorded
+  isPartial?: boolean; // Generation was stopped before completion
+  chapters?: string[]; // Titles of the chapters included, when the book had a chapter structure
+  totalChapters?: number;
+  chat?: ChatMessage[]; // Follow-up Q&A about the book
+  promptSnapshot?: PromptSnapshot;
+  usage?: TokenUsage; // Summed over all requests made for this result
+  contentHash?: string; // SHA-256 of the input, mode, model and system instruction; used to reuse results
+  stoppingPoint?: StoppingPoint; // Reading-progress modes: how far the reader had read
+  figures?: BookImage[]; // Book figures the output refers to as figure:<id> images
 }
 
+// How far into a book the reader has read, as a share of its extracted text in spine order
+export interface StoppingPoint {
+  percent: number; // 0-100
+  chapterIndex: number; // Chapter containing the stopping point
+  label: string; // e.g. 'end of "Chapter 8"' or '40% mark (in "Chapter 9")'
+  since?: { percent: number; label: string }; // Incremental recaps only cover the text after this point
+}
+
+export interface BookChapter {
+  title: string; // From the TOC (nav/NCX), falling back to the first heading. Empty when the source has no chapter structure
+  href: string; // Spine item path inside the EPUB, or #page=N for PDFs
+  text: string;
+  startPage?: number; // PDF only: 1-based page range covered by the chapter
+  endPage?: number;
+  images?: BookImage[]; // EPUB only: figures marked in `text` by [FIGURE <id>] placeholders
+}
+
+// A figure extracted from a book, sent to multimodal models next to the text that mentions it
+export interface BookImage {
+  id: string; // e.g. "fig-3", unique within the book
+  mimeType: string;
+  data: string; // Base64
+  alt: string; // Alt text or caption, if the book has one
+}
+
+export interface ParsedBook {
+  title: string;
+  author: string;
+  language: string;
+  chapters: BookChapter[];
+}
+
+// An uploaded book. Its base64 encoding is only needed when the file is sent to the model
+// as-is (no extractable text), so it is made on demand with encodeBase64.
 export interface FileData {
   file: File;
-  base64: string;
   mimeType: string;
 }
 
-export const AVAILABLE_MODELS = [
-  { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash' },
-  { id: 'gemini-3-pro-preview', name: 'Gemini 3.0 Pro' },
+export type BatchStatus = 'queued' | 'parsing' | 'generating' | 'done' | 'failed' | 'cancelled';
+
+// One book in the batch processing queue. Mode and model are fixed when the item is queued.
+export interface BatchItem {
+  id: string;
+  fileData: FileData;
+  modeId: string;
+  modelId: string;
+  status: BatchStatus;
+  progress: string;
+  error?: string;
+  result?: SummaryResult;
+}
+
+export enum ProviderId {
+  GEMINI = 'GEMINI',
+  OPENAI_COMPATIBLE = 'OPENAI_COMPATIBLE',
+}
+
+// USD per million tokens
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface ModelOption {
+  id: string;
+  name: string;
+  provider: ProviderId;
+  contextWindow: number; // Maximum input tokens per request
+  pricing?: ModelPricing; // Missing for self-hosted models
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd?: number; // At the model's pricing when generated; missing for models without pricing
+}
+
+// Models served by an OpenAI-compatible endpoint (e.g. a local llama.cpp or Ollama server),
+// configured as a comma-separated list in LOCAL_LLM_MODELS
+const LOCAL_CONTEXT_WINDOW = Number(process.env.LOCAL_LLM_CONTEXT_WINDOW) || 32_768;
+
+const LOCAL_MODELS: ModelOption[] = (process.env.LOCAL_LLM_MODELS || '')
+  .split(',')
+  .map(id => id.trim())
+  .filter(id => id.length > 0)
+  .map(id => ({ id, name: id, provider: ProviderId.OPENAI_COMPATIBLE, contextWindow: LOCAL_CONTEXT_WINDOW }));
+
+export const AVAILABLE_MODELS: ModelOption[] = [
+  {
+    id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', provider: ProviderId.GEMINI,
+    contextWindow: 1_048_576, pricing: { inputPerMillion: 0.30, outputPerMillion: 2.50 },
+  },
+  {
+    id: 'gemini-3-pro-preview', name: 'Gemini 3.0 Pro', provider: ProviderId.GEMINI,
+    contextWindow: 1_048_576, pricing: { inputPerMillion: 2.00, outputPerMillion: 12.00 },
+  },
+  ...LOCAL_MODELS,
 ];
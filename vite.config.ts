@@ -11,8 +11,10 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // API keys are not inlined: users enter their own at runtime (see apiKeyService)
+        'process.env.LOCAL_LLM_BASE_URL': JSON.stringify(env.LOCAL_LLM_BASE_URL),
+        'process.env.LOCAL_LLM_MODELS': JSON.stringify(env.LOCAL_LLM_MODELS),
+        'process.env.LOCAL_LLM_CONTEXT_WINDOW': JSON.stringify(env.LOCAL_LLM_CONTEXT_WINDOW)
       },
       resolve: {
         alias: {